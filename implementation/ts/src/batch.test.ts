@@ -0,0 +1,81 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight } from "./helpers";
+import { Change, Picomerge } from "./picomerge";
+
+describe("Picomerge: applyBatch", () => {
+  test("ops are applied in a causal order regardless of their order", () => {
+    const { left, right } = createLeftAndRight<number>("A", "B");
+    const ops = [left.set(1), left.set(2), left.undo()!, left.set(3)];
+
+    const report = right.applyBatch([...ops].reverse());
+    expect(report).toEqual({
+      applied: ops.map((op) => op.opId),
+      deferred: [],
+      duplicates: [],
+      rejected: [],
+    });
+    expect(right.get()).toEqual(left.get());
+    expect(right.terminalHeads()).toEqual(left.terminalHeads());
+  });
+
+  test("the report lists deferred and duplicate ops", () => {
+    const { left, right } = createLeftAndRight<number>("A", "B");
+    const ops = [left.set(1), left.set(2), left.set(3), left.set(4)];
+
+    const first = right.applyBatch([ops[0], ops[2], ops[3], ops[0]]);
+    expect(first).toEqual({
+      applied: [ops[0].opId],
+      deferred: [ops[2].opId, ops[3].opId],
+      duplicates: [ops[0].opId],
+      rejected: [],
+    });
+    expect(right.get()).toEqual([1]);
+
+    // the missing op releases the deferred ops
+    const second = right.applyBatch([ops[1], ops[0]]);
+    expect(second).toEqual({
+      applied: [ops[1].opId, ops[2].opId, ops[3].opId],
+      deferred: [],
+      duplicates: [ops[0].opId],
+      rejected: [],
+    });
+    expect(right.get()).toEqual([4]);
+  });
+
+  test("subscribers are notified of a single change", () => {
+    const { left, right } = createLeftAndRight<number>("A", "B");
+    const ops = [left.set(1), left.set(2), left.set(3)];
+    const changes: Change<number>[] = [];
+    right.subscribe((change) => changes.push(change));
+
+    right.applyBatch(ops);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      previous: [],
+      current: [3],
+      op: ops[2],
+      kind: "set",
+      local: false,
+    });
+
+    // nothing applied, nothing changed
+    right.applyBatch(ops);
+    right.applyBatch([undefined]);
+    expect(changes).toHaveLength(1);
+  });
+
+  test("batches of concurrent ops converge with single applies", () => {
+    const { left, right } = createLeftAndRight<number>("A", "B");
+    const leftOps = [left.set(1), left.set(2)];
+    const rightOps = [right.set(3), right.undo()!, right.set(4)];
+
+    const batched = Picomerge.create<number>("C");
+    batched.applyBatch([...rightOps, ...leftOps]);
+    const single = Picomerge.create<number>("D");
+    [...leftOps, ...rightOps].forEach((op) => single.apply([op]));
+
+    expect(batched.get()).toEqual([4, 2]);
+    expect(batched.terminalHeads()).toEqual(single.terminalHeads());
+    expect(batched.heads()).toEqual(single.heads());
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "@jest/globals";
+import { Picomerge } from "./picomerge";
+
+const createWithFakeTime = (interval: number) => {
+  let time = 0;
+  const picomerge = Picomerge.create<number>("A", {
+    coalesce: { interval, now: () => time },
+  });
+  const advance = (ms: number) => {
+    time += ms;
+  };
+  return { picomerge, advance };
+};
+
+describe("Picomerge: coalescing of undo entries", () => {
+  test("sets within the interval are coalesced", () => {
+    const { picomerge: a, advance } = createWithFakeTime(500);
+
+    [1, 2, 3].forEach((i) => {
+      a.set(i);
+      advance(100);
+    });
+    advance(1000);
+    [4, 5].forEach((i) => {
+      a.set(i);
+      advance(500);
+    });
+    expect(a.undoStack()).toHaveLength(2);
+
+    a.undo();
+    expect(a.get()).toEqual([3]);
+    a.undo();
+    expect(a.get()).toEqual([]);
+    a.redo();
+    expect(a.get()).toEqual([3]);
+    a.redo();
+    expect(a.get()).toEqual([5]);
+  });
+
+  test("the interval is measured between consecutive sets", () => {
+    const { picomerge: a, advance } = createWithFakeTime(100);
+
+    // a continuous stream of edits is a single entry
+    Array.from({ length: 10 }).forEach((_, i) => {
+      a.set(i);
+      advance(100);
+    });
+    expect(a.undoStack()).toHaveLength(1);
+  });
+
+  test("explicit boundaries and undo end the current entry", () => {
+    const { picomerge: a } = createWithFakeTime(1000);
+
+    a.set(1);
+    a.set(2);
+    a.undoBoundary();
+    a.set(3);
+    a.delete();
+    expect(a.undoStack()).toHaveLength(2);
+
+    a.undo();
+    expect(a.get()).toEqual([2]);
+    // the undo ends the entry, hence the next set is an entry of its own
+    a.set(4);
+    a.set(5);
+    expect(a.undoStack()).toHaveLength(2);
+    a.undo();
+    expect(a.get()).toEqual([2]);
+  });
+
+  test("groups are not coalesced with neighboring sets", () => {
+    const { picomerge: a } = createWithFakeTime(1000);
+
+    a.set(1);
+    a.transaction(() => {
+      a.set(2);
+      a.set(3);
+    });
+    a.set(4);
+    expect(a.undoStack()).toHaveLength(3);
+  });
+
+  test("without a policy, every set is an entry of its own", () => {
+    const a = Picomerge.create<number>("A");
+    [1, 2, 3].forEach((i) => a.set(i));
+    expect(a.undoStack()).toHaveLength(3);
+  });
+});
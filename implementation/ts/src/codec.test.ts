@@ -0,0 +1,159 @@
+import { describe, expect, test } from "@jest/globals";
+import { OpCodec, ValueCodec, WIRE_FORMAT_VERSION } from "./codec";
+import { createLeftAndRight } from "./helpers";
+import { Op, OpKind, Picomerge } from "./picomerge";
+
+const generateOps = () => {
+  const a = Picomerge.create<{ color: string }>("A");
+  const ops: Op<{ color: string }>[] = [
+    a.set({ color: "black" }),
+    a.set({ color: "red" }),
+    a.undo()!,
+    a.redo()!,
+    a.delete()!,
+  ];
+  return [a, ops] as const;
+};
+
+describe("OpCodec", () => {
+  const codec = OpCodec.create<{ color: string }>();
+
+  test("JSON round trip of set, delete and restore ops", () => {
+    const [_a, ops] = generateOps();
+    for (const op of ops) {
+      expect(codec.fromJson(codec.toJson(op))).toEqual(op);
+    }
+  });
+
+  test("binary round trip of set, delete and restore ops", () => {
+    const [_a, ops] = generateOps();
+    for (const op of ops) {
+      expect(codec.fromBinary(codec.toBinary(op))).toEqual(op);
+    }
+  });
+
+  test("preds survive JSON encoding", () => {
+    const [_a, ops] = generateOps();
+    const json = JSON.parse(codec.toJson(ops[1]));
+    expect(json.version).toBe(WIRE_FORMAT_VERSION);
+    expect(json.preds).toEqual([[1, "A"]]);
+  });
+
+  test("replicas converge when exchanging encoded ops", () => {
+    const { left, right } = createLeftAndRight<number>();
+    const codec = OpCodec.create<number>();
+
+    const leftOps = [left.set(1), left.set(2), left.undo()];
+    const rightOps = [right.set(3)];
+
+    right.apply(leftOps.map((op) => codec.fromBinary(codec.toBinary(op!))));
+    left.apply(rightOps.map((op) => codec.fromJson(codec.toJson(op))));
+    expect([left.get(), right.get()]).toEqual([
+      [1, 3],
+      [1, 3],
+    ]);
+
+    left.apply([right.undo()].map((op) => codec.fromJson(codec.toJson(op!))));
+    right.apply(
+      [left.redo()].map((op) => codec.fromBinary(codec.toBinary(op!))),
+    );
+    expect([left.get(), right.get()]).toEqual([[2], [2]]);
+  });
+
+  test("custom value codec", () => {
+    const dateCodec: ValueCodec<Date> = {
+      encode: (date) => date.toISOString(),
+      decode: (encoded) => new Date(encoded),
+    };
+    const codec = OpCodec.create(dateCodec);
+    const instance = Picomerge.create<Date>("A");
+    const op = instance.set(new Date(0));
+
+    const decoded = codec.fromBinary(codec.toBinary(op));
+    expect(decoded).toEqual(op);
+    expect(JSON.parse(codec.toJson(op)).value).toBe("1970-01-01T00:00:00.000Z");
+  });
+
+  test("binary format is more compact than JSON", () => {
+    const [_a, ops] = generateOps();
+    const op = ops[ops.length - 1];
+    expect(codec.toBinary(op).length).toBeLessThan(codec.toJson(op).length);
+  });
+
+  test("rejects unsupported versions", () => {
+    const [_a, ops] = generateOps();
+    const json = { ...codec.toWire(ops[0]), version: WIRE_FORMAT_VERSION + 1 };
+    expect(() => codec.fromJson(JSON.stringify(json))).toThrow(
+      "unsupported wire format version",
+    );
+
+    const bytes = codec.toBinary(ops[0]);
+    bytes[0] = WIRE_FORMAT_VERSION + 1;
+    expect(() => codec.fromBinary(bytes)).toThrow(
+      "unsupported wire format version",
+    );
+  });
+
+  test("decodes deletes of wire format version 1", () => {
+    const [_a, ops] = generateOps();
+    const deleteOp = ops[4];
+    expect(deleteOp.kind).toBe(OpKind.delete);
+    // version 1 encoded a delete as a set op without a value
+    const v1 = { ...codec.toWire(deleteOp), version: 1, kind: OpKind.set };
+    expect(codec.fromWire(v1)).toEqual(deleteOp);
+
+    // the same holds for the binary format: a set op with an empty value flag
+    const bytes = codec.toBinary(deleteOp);
+    const v1Bytes = Uint8Array.from([1, OpKind.set, ...bytes.subarray(2), 0]);
+    expect(codec.fromBinary(v1Bytes)).toEqual(deleteOp);
+
+    // set ops with a value and restore ops are unchanged
+    for (const op of ops.slice(0, 4)) {
+      expect(codec.fromWire({ ...codec.toWire(op), version: 1 })).toEqual(op);
+    }
+    // there is no delete kind in version 1
+    expect(() =>
+      codec.fromWire({ ...codec.toWire(deleteOp), version: 1 }),
+    ).toThrow("unknown kind");
+  });
+
+  test("undefined is a value distinct from a delete", () => {
+    const codec = OpCodec.create<number | undefined>();
+    const a = Picomerge.create<number | undefined>("A");
+    const op = a.set(undefined);
+    expect(codec.fromJson(codec.toJson(op))).toEqual(op);
+    expect(codec.fromBinary(codec.toBinary(op))).toEqual(op);
+  });
+
+  test("rejects malformed ops", () => {
+    const [_a, ops] = generateOps();
+    const wire = codec.toWire(ops[2]);
+
+    expect(() => codec.fromJson("{")).toThrow("not valid JSON");
+    expect(() => codec.fromWire(null)).toThrow("not an object");
+    expect(() => codec.fromWire({ ...wire, kind: 7 })).toThrow("unknown kind");
+    expect(() => codec.fromWire({ ...wire, opId: [-1, "A"] })).toThrow(
+      "invalid counter",
+    );
+    expect(() => codec.fromWire({ ...wire, opId: [2 ** 40, "A"] })).toThrow(
+      "invalid counter",
+    );
+    expect(() => codec.fromWire({ ...wire, preds: [[1]] })).toThrow(
+      "pred is not a [ctr, actorId] tuple",
+    );
+    expect(() => codec.fromWire({ ...wire, anchor: undefined })).toThrow(
+      "anchor is not a [ctr, actorId] tuple",
+    );
+    expect(() => codec.fromWire({ ...wire, value: "1" })).toThrow(
+      "restore op carries a value",
+    );
+
+    const bytes = codec.toBinary(ops[2]);
+    expect(() => codec.fromBinary(bytes.subarray(0, bytes.length - 1))).toThrow(
+      "unexpected end of input",
+    );
+    expect(() => codec.fromBinary(Uint8Array.from([...bytes, 0]))).toThrow(
+      "trailing bytes",
+    );
+  });
+});
@@ -0,0 +1,723 @@
+import {
+  ActorId,
+  MAX_CTR,
+  Op,
+  OpId,
+  OpKind,
+  Snapshot,
+  StringifiedOpId,
+} from "./picomerge";
+import { SyncMessage } from "./sync";
+
+/**
+ * The version of the wire format produced by the encoders below.
+ * Decoders also accept version 1, in which deletes were encoded as set ops
+ * without a value, and reject any other version.
+ */
+export const WIRE_FORMAT_VERSION = 2;
+
+const isSupportedVersion = (version: unknown) =>
+  version === WIRE_FORMAT_VERSION || version === 1;
+
+/**
+ * Values are opaque to the register, hence a value codec translates them
+ * to and from strings which are then embedded into the wire format.
+ */
+export type ValueCodec<V> = {
+  encode: (value: V) => string;
+  decode: (encoded: string) => V;
+};
+
+/**
+ * The default value codec, suitable for any JSON-serializable value.
+ */
+export const jsonValueCodec = <V>(): ValueCodec<V> => ({
+  encode: (value: V) => JSON.stringify(value),
+  decode: (encoded: string) => JSON.parse(encoded) as V,
+});
+
+type WireOpId = [number, ActorId];
+
+/**
+ * The JSON representation of an operation. In contrast to `Op<V>`, it only
+ * consists of JSON-serializable data: opIds are plain tuples and the preds
+ * are an array instead of a set.
+ */
+export type WireOp = {
+  version: number;
+  kind: OpKind;
+  opId: WireOpId;
+  preds: WireOpId[];
+  // only present for operations of kind `set` whose value is not `undefined`
+  value?: string;
+  // only present for operations of kind `restore`
+  anchor?: WireOpId;
+  // only present for operations of kind `resolve`
+  chosen?: WireOpId;
+  // only present for operations generated by a replica with a user identity
+  userId?: string;
+  // only present for operations generated by a replica which hashes its ops
+  hash?: string;
+  // the hashes of the preds, in the order of the preds, where `null` marks
+  // a pred without a known hash; only present along with the hash
+  predHashes?: (string | null)[];
+};
+
+/**
+ * The JSON representation of a snapshot produced by `Picomerge.save()`.
+ */
+export type WireSnapshot = {
+  version: number;
+  actorId: ActorId;
+  clock: number;
+  ops: WireOp[];
+  lobby: WireOp[];
+  // absent in snapshots of replicas which have never been compacted
+  compacted?: [WireOpId, WireOpId[]][];
+  // absent in snapshots of replicas without known remote actors
+  actors?: [ActorId, WireOpId[]][];
+  undoStack: WireOpId[];
+  redoStack: WireOpId[];
+  // absent in snapshots of replicas which have never undone globally
+  global?: { undone: WireOpId[]; ops: WireOpId[]; redoStack: WireOpId[] };
+};
+
+const invalid = (reason: string) => new Error(`Invalid encoding: ${reason}`);
+
+const parseJson = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw invalid("not valid JSON");
+  }
+};
+
+const isKnownOpKind = (kind: unknown): kind is OpKind =>
+  Object.values(OpKind).some((known) => known === kind);
+
+const decodeOpId = (value: unknown, field: string): OpId => {
+  if (!Array.isArray(value) || value.length !== 2)
+    throw invalid(`${field} is not a [ctr, actorId] tuple`);
+  const [ctr, actorId] = value;
+  if (
+    typeof ctr !== "number" ||
+    !Number.isSafeInteger(ctr) ||
+    ctr < 0 ||
+    ctr >= MAX_CTR
+  )
+    throw invalid(`${field} has an invalid counter '${ctr}'`);
+  if (typeof actorId !== "string")
+    throw invalid(`${field} has an invalid actorId '${actorId}'`);
+  return OpId.create(ctr, actorId);
+};
+
+const decodeArray = <T>(
+  value: unknown,
+  field: string,
+  decode: (item: unknown) => T,
+): T[] => {
+  if (!Array.isArray(value)) throw invalid(`${field} is not an array`);
+  return value.map(decode);
+};
+
+const toWireOp = <V>(op: Op<V>, valueCodec: ValueCodec<V>): WireOp => {
+  const preds = [...op.preds].map(OpId.fromString);
+  const user = {
+    ...(op.userId !== undefined ? { userId: op.userId } : {}),
+    ...(op.hash !== undefined
+      ? {
+          hash: op.hash,
+          predHashes: [...op.preds].map(
+            (pred) => op.predHashes?.[pred] ?? null,
+          ),
+        }
+      : {}),
+  };
+  switch (op.kind) {
+    case OpKind.set:
+      return {
+        version: WIRE_FORMAT_VERSION,
+        kind: op.kind,
+        opId: op.opId,
+        preds,
+        ...user,
+        ...(op.value !== undefined
+          ? { value: valueCodec.encode(op.value) }
+          : {}),
+      };
+    case OpKind.delete:
+      return {
+        version: WIRE_FORMAT_VERSION,
+        kind: op.kind,
+        opId: op.opId,
+        preds,
+        ...user,
+      };
+    case OpKind.restore:
+      return {
+        version: WIRE_FORMAT_VERSION,
+        kind: op.kind,
+        opId: op.opId,
+        preds,
+        ...user,
+        anchor: op.anchor,
+      };
+    case OpKind.resolve:
+      return {
+        version: WIRE_FORMAT_VERSION,
+        kind: op.kind,
+        opId: op.opId,
+        preds,
+        ...user,
+        chosen: op.chosen,
+      };
+  }
+};
+
+const fromWireOp = <V>(wireOp: unknown, valueCodec: ValueCodec<V>): Op<V> => {
+  if (typeof wireOp !== "object" || wireOp === null)
+    throw invalid("not an object");
+  const {
+    version,
+    kind,
+    opId,
+    preds,
+    value,
+    anchor,
+    chosen,
+    userId,
+    hash,
+    predHashes,
+  } = wireOp as Record<string, unknown>;
+  if (!isSupportedVersion(version))
+    throw invalid(`unsupported wire format version '${version}'`);
+  // version 1 only knew set and restore ops
+  if (
+    !isKnownOpKind(kind) ||
+    (version === 1 && kind !== OpKind.set && kind !== OpKind.restore)
+  )
+    throw invalid(`unknown kind '${kind}'`);
+  if (!Array.isArray(preds)) throw invalid("preds is not an array");
+  if (userId !== undefined && typeof userId !== "string")
+    throw invalid(`invalid userId '${userId}'`);
+  if (hash !== undefined && typeof hash !== "string")
+    throw invalid(`invalid hash '${hash}'`);
+  if (
+    (hash === undefined) !== (predHashes === undefined) ||
+    (predHashes !== undefined &&
+      (!Array.isArray(predHashes) ||
+        predHashes.length !== preds.length ||
+        predHashes.some(
+          (predHash) => predHash !== null && typeof predHash !== "string",
+        )))
+  )
+    throw invalid("pred hashes do not match the hash and the preds");
+  const decodedPreds = preds.map((pred) =>
+    OpId.toString(decodeOpId(pred, "pred")),
+  );
+  const base = {
+    opId: decodeOpId(opId, "opId"),
+    preds: new Set<StringifiedOpId>(decodedPreds),
+    ...(userId !== undefined ? { userId } : {}),
+    ...(hash !== undefined
+      ? {
+          hash,
+          predHashes: Object.fromEntries(
+            decodedPreds
+              .map((pred, i) => [pred, (predHashes as (string | null)[])[i]])
+              .filter(([_pred, predHash]) => predHash !== null),
+          ),
+        }
+      : {}),
+  };
+  if (chosen !== undefined && kind !== OpKind.resolve)
+    throw invalid("only resolve ops carry a chosen opId");
+  switch (kind) {
+    case OpKind.set:
+      if (anchor !== undefined) throw invalid("set op carries an anchor");
+      if (value !== undefined && typeof value !== "string")
+        throw invalid("value is not an encoded string");
+      // migration: version 1 encoded deletes as set ops without a value
+      if (value === undefined && version === 1)
+        return { ...base, kind: OpKind.delete };
+      return {
+        ...base,
+        kind,
+        // an absent value is the value `undefined`
+        value: (value === undefined
+          ? undefined
+          : valueCodec.decode(value)) as V,
+      };
+    case OpKind.delete:
+      if (anchor !== undefined) throw invalid("delete op carries an anchor");
+      if (value !== undefined) throw invalid("delete op carries a value");
+      return { ...base, kind };
+    case OpKind.restore:
+      if (value !== undefined) throw invalid("restore op carries a value");
+      return { ...base, kind, anchor: decodeOpId(anchor, "anchor") };
+    case OpKind.resolve:
+      if (anchor !== undefined) throw invalid("resolve op carries an anchor");
+      if (value !== undefined) throw invalid("resolve op carries a value");
+      return { ...base, kind, chosen: decodeOpId(chosen, "chosen") };
+  }
+};
+
+/**
+ * A minimal byte writer for the binary wire format.
+ * Integers are written as unsigned LEB128 varints.
+ */
+const Writer = {
+  create: () => {
+    const bytes: number[] = [];
+    const textEncoder = new TextEncoder();
+
+    const byte = (b: number) => bytes.push(b);
+    const uint = (n: number) => {
+      do {
+        const low = n % 0x80;
+        n = Math.floor(n / 0x80);
+        bytes.push(n > 0 ? low | 0x80 : low);
+      } while (n > 0);
+    };
+    const string = (s: string) => {
+      const encoded = textEncoder.encode(s);
+      uint(encoded.length);
+      encoded.forEach((b) => bytes.push(b));
+    };
+
+    // a length-prefixed byte sequence
+    const bytesOf = (b: Uint8Array) => {
+      uint(b.length);
+      b.forEach((byte) => bytes.push(byte));
+    };
+
+    return {
+      byte,
+      uint,
+      string,
+      bytes: bytesOf,
+      finish: () => Uint8Array.from(bytes),
+    };
+  },
+};
+
+const Reader = {
+  create: (bytes: Uint8Array) => {
+    let offset = 0;
+    const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+    const byte = () => {
+      if (offset >= bytes.length) throw invalid("unexpected end of input");
+      return bytes[offset++];
+    };
+    const uint = () => {
+      let n = 0;
+      let factor = 1;
+      let b: number;
+      do {
+        b = byte();
+        n += (b & 0x7f) * factor;
+        factor *= 0x80;
+        if (!Number.isSafeInteger(n)) throw invalid("integer out of range");
+      } while (b & 0x80);
+      return n;
+    };
+    const bytesOf = () => {
+      const length = uint();
+      if (offset + length > bytes.length)
+        throw invalid("unexpected end of input");
+      const slice = bytes.subarray(offset, offset + length);
+      offset += length;
+      return slice;
+    };
+    const string = () => {
+      const slice = bytesOf();
+      try {
+        return textDecoder.decode(slice);
+      } catch {
+        throw invalid("string is not valid utf-8");
+      }
+    };
+    const done = () => offset === bytes.length;
+
+    return { byte, uint, string, bytes: bytesOf, done };
+  },
+};
+
+/**
+ * The binary format mirrors the JSON format but deduplicates actorIds
+ * into a table at the beginning of the op:
+ *
+ * version | kind | #actors | actors... | opId | #preds | preds... | payload
+ * [| flags | [userId] | [hash | predHashes...]]
+ *
+ * where an opId is encoded as `ctr | actorIndex` and the payload is either
+ * `0` (the value `undefined`) or `1 | value` for `set` ops, empty for
+ * `delete` ops, the anchor opId for `restore` ops and the chosen opId for
+ * `resolve` ops. The optional fields are marked by the bits of the flags:
+ * `1` for the userId of ops generated by a replica with a user identity and
+ * `2` for the hash and the pred hashes (in the order of the preds, an empty
+ * string for a pred without a known hash) of ops generated by a replica
+ * which hashes its ops.
+ */
+const toBinaryOp = <V>(op: Op<V>, valueCodec: ValueCodec<V>): Uint8Array => {
+  const { opId, preds, anchor, chosen, value, userId, hash, predHashes } =
+    toWireOp(op, valueCodec);
+  const opIds = [
+    opId,
+    ...preds,
+    ...(anchor ? [anchor] : []),
+    ...(chosen ? [chosen] : []),
+  ];
+  const actors = [...new Set(opIds.map(OpId.actor))];
+
+  const writer = Writer.create();
+  const writeOpId = ([ctr, actorId]: WireOpId) => {
+    writer.uint(ctr);
+    writer.uint(actors.indexOf(actorId));
+  };
+
+  writer.byte(WIRE_FORMAT_VERSION);
+  writer.byte(op.kind);
+  writer.uint(actors.length);
+  actors.forEach(writer.string);
+  writeOpId(opId);
+  writer.uint(preds.length);
+  preds.forEach(writeOpId);
+  if (anchor) {
+    writeOpId(anchor);
+  } else if (chosen) {
+    writeOpId(chosen);
+  } else if (value !== undefined) {
+    writer.byte(1);
+    writer.string(value);
+  } else if (op.kind === OpKind.set) {
+    writer.byte(0);
+  }
+  const flags = (userId !== undefined ? 1 : 0) | (hash !== undefined ? 2 : 0);
+  if (flags) writer.byte(flags);
+  if (userId !== undefined) writer.string(userId);
+  if (hash !== undefined) {
+    writer.string(hash);
+    predHashes?.forEach((predHash) => writer.string(predHash ?? ""));
+  }
+  return writer.finish();
+};
+
+const fromBinaryOp = <V>(
+  bytes: Uint8Array,
+  valueCodec: ValueCodec<V>,
+): Op<V> => {
+  const reader = Reader.create(bytes);
+
+  const version = reader.byte();
+  const kind = reader.byte();
+  const actors = Array.from({ length: reader.uint() }, reader.string);
+  const readOpId = (): WireOpId => {
+    const ctr = reader.uint();
+    const actorIndex = reader.uint();
+    if (actorIndex >= actors.length)
+      throw invalid(`unknown actor index '${actorIndex}'`);
+    return [ctr, actors[actorIndex]];
+  };
+  const opId = readOpId();
+  const preds = Array.from({ length: reader.uint() }, readOpId);
+
+  const wireOp: WireOp = { version, kind: kind as OpKind, opId, preds };
+  if (kind === OpKind.restore) {
+    wireOp.anchor = readOpId();
+  } else if (kind === OpKind.resolve) {
+    wireOp.chosen = readOpId();
+  } else if (kind === OpKind.set) {
+    const hasValue = reader.byte();
+    if (hasValue > 1) throw invalid(`invalid value flag '${hasValue}'`);
+    if (hasValue) wireOp.value = reader.string();
+  }
+  // the optional fields are marked by leading flags
+  if (!reader.done()) {
+    const flags = reader.byte();
+    if (flags === 0 || flags > 3) throw invalid("trailing bytes");
+    if (flags & 1) wireOp.userId = reader.string();
+    if (flags & 2) {
+      wireOp.hash = reader.string();
+      wireOp.predHashes = preds.map(() => reader.string() || null);
+    }
+  }
+  if (!reader.done()) throw invalid("trailing bytes");
+
+  return fromWireOp(wireOp, valueCodec);
+};
+
+/**
+ * Creates a codec for operations. Encoded operations can be transferred
+ * between replicas via any transport, e.g., sockets or files, and can be
+ * applied after decoding via `Picomerge.apply()`.
+ */
+export type OpCodec<V> = ReturnType<typeof OpCodec.create<V>>;
+export const OpCodec = {
+  create: <V>(valueCodec: ValueCodec<V> = jsonValueCodec<V>()) => ({
+    toWire: (op: Op<V>): WireOp => toWireOp(op, valueCodec),
+    fromWire: (wireOp: unknown): Op<V> => fromWireOp(wireOp, valueCodec),
+    toJson: (op: Op<V>): string => JSON.stringify(toWireOp(op, valueCodec)),
+    fromJson: (json: string): Op<V> => fromWireOp(parseJson(json), valueCodec),
+    toBinary: (op: Op<V>): Uint8Array => toBinaryOp(op, valueCodec),
+    fromBinary: (bytes: Uint8Array): Op<V> => fromBinaryOp(bytes, valueCodec),
+  }),
+};
+
+/**
+ * The JSON representation of a sync message, where the Bloom filter is
+ * encoded as a hex string.
+ */
+export type WireSyncMessage = {
+  version: number;
+  heads: WireOpId[];
+  need: WireOpId[];
+  have: { lastSync: WireOpId[]; bloom: string };
+  ops: WireOp[];
+};
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string) =>
+  Uint8Array.from(hex.match(/../g) ?? [], (b) => parseInt(b, 16));
+
+const toWireSyncMessage = <V>(
+  message: SyncMessage<V>,
+  valueCodec: ValueCodec<V>,
+): WireSyncMessage => ({
+  version: WIRE_FORMAT_VERSION,
+  heads: message.heads,
+  need: message.need,
+  have: {
+    lastSync: message.have.lastSync,
+    bloom: toHex(message.have.bloom),
+  },
+  ops: message.ops.map((op) => toWireOp(op, valueCodec)),
+});
+
+const fromWireSyncMessage = <V>(
+  wireMessage: unknown,
+  valueCodec: ValueCodec<V>,
+): SyncMessage<V> => {
+  if (typeof wireMessage !== "object" || wireMessage === null)
+    throw invalid("sync message is not an object");
+  const { version, heads, need, have, ops } = wireMessage as Record<
+    string,
+    unknown
+  >;
+  if (!isSupportedVersion(version))
+    throw invalid(`unsupported wire format version '${version}'`);
+  if (typeof have !== "object" || have === null)
+    throw invalid("have is not an object");
+  const { lastSync, bloom } = have as Record<string, unknown>;
+  if (typeof bloom !== "string" || !/^([0-9a-f]{2})*$/.test(bloom))
+    throw invalid("bloom is not a hex string");
+  return {
+    heads: decodeArray(heads, "heads", (opId) => decodeOpId(opId, "head")),
+    need: decodeArray(need, "need", (opId) => decodeOpId(opId, "need entry")),
+    have: {
+      lastSync: decodeArray(lastSync, "lastSync", (opId) =>
+        decodeOpId(opId, "lastSync entry"),
+      ),
+      bloom: fromHex(bloom),
+    },
+    ops: decodeArray(ops, "ops", (op) => fromWireOp(op, valueCodec)),
+  };
+};
+
+/**
+ * The binary format of a sync message:
+ *
+ * version | #heads | heads... | #need | need... | #lastSync | lastSync...
+ * | bloom | #ops | ops...
+ *
+ * where an opId is encoded as `ctr | actorId`, the Bloom filter as
+ * `#bytes | bytes...` and each op in its binary format, prefixed by its
+ * number of bytes.
+ */
+const toBinarySyncMessage = <V>(
+  message: SyncMessage<V>,
+  valueCodec: ValueCodec<V>,
+): Uint8Array => {
+  const writer = Writer.create();
+  const writeOpIds = (opIds: OpId[]) => {
+    writer.uint(opIds.length);
+    opIds.forEach(([ctr, actorId]) => {
+      writer.uint(ctr);
+      writer.string(actorId);
+    });
+  };
+
+  writer.byte(WIRE_FORMAT_VERSION);
+  writeOpIds(message.heads);
+  writeOpIds(message.need);
+  writeOpIds(message.have.lastSync);
+  writer.bytes(message.have.bloom);
+  writer.uint(message.ops.length);
+  message.ops.forEach((op) => writer.bytes(toBinaryOp(op, valueCodec)));
+  return writer.finish();
+};
+
+const fromBinarySyncMessage = <V>(
+  bytes: Uint8Array,
+  valueCodec: ValueCodec<V>,
+): SyncMessage<V> => {
+  const reader = Reader.create(bytes);
+  const readOpIds = (field: string) =>
+    Array.from({ length: reader.uint() }, () =>
+      decodeOpId([reader.uint(), reader.string()], field),
+    );
+
+  const version = reader.byte();
+  if (!isSupportedVersion(version))
+    throw invalid(`unsupported wire format version '${version}'`);
+  const heads = readOpIds("head");
+  const need = readOpIds("need entry");
+  const lastSync = readOpIds("lastSync entry");
+  // copied, as a view would keep the whole message alive
+  const bloom = Uint8Array.from(reader.bytes());
+  const ops = Array.from({ length: reader.uint() }, () =>
+    fromBinaryOp(reader.bytes(), valueCodec),
+  );
+  if (!reader.done()) throw invalid("trailing bytes");
+  return { heads, need, have: { lastSync, bloom }, ops };
+};
+
+/**
+ * Creates a codec for the messages of the sync protocol (see `Sync`),
+ * which are exchanged between two replicas via any transport.
+ */
+export type SyncMessageCodec<V> = ReturnType<typeof SyncMessageCodec.create<V>>;
+export const SyncMessageCodec = {
+  create: <V>(valueCodec: ValueCodec<V> = jsonValueCodec<V>()) => ({
+    toWire: (message: SyncMessage<V>): WireSyncMessage =>
+      toWireSyncMessage(message, valueCodec),
+    fromWire: (wireMessage: unknown): SyncMessage<V> =>
+      fromWireSyncMessage(wireMessage, valueCodec),
+    toJson: (message: SyncMessage<V>): string =>
+      JSON.stringify(toWireSyncMessage(message, valueCodec)),
+    fromJson: (json: string): SyncMessage<V> =>
+      fromWireSyncMessage(parseJson(json), valueCodec),
+    toBinary: (message: SyncMessage<V>): Uint8Array =>
+      toBinarySyncMessage(message, valueCodec),
+    fromBinary: (bytes: Uint8Array): SyncMessage<V> =>
+      fromBinarySyncMessage(bytes, valueCodec),
+  }),
+};
+
+/**
+ * Creates a codec for snapshots, e.g., to persist a replica to a file
+ * and to load it again after a restart.
+ */
+export type SnapshotCodec<V> = ReturnType<typeof SnapshotCodec.create<V>>;
+export const SnapshotCodec = {
+  create: <V>(valueCodec: ValueCodec<V> = jsonValueCodec<V>()) => {
+    const toWire = (snapshot: Snapshot<V>): WireSnapshot => ({
+      version: WIRE_FORMAT_VERSION,
+      actorId: snapshot.actorId,
+      clock: snapshot.clock,
+      ops: snapshot.ops.map((op) => toWireOp(op, valueCodec)),
+      lobby: snapshot.lobby.map((op) => toWireOp(op, valueCodec)),
+      ...(snapshot.compacted.length > 0
+        ? { compacted: snapshot.compacted }
+        : {}),
+      ...(snapshot.actors.length > 0 ? { actors: snapshot.actors } : {}),
+      undoStack: snapshot.undoStack,
+      redoStack: snapshot.redoStack,
+      ...(snapshot.global.ops.length > 0 ? { global: snapshot.global } : {}),
+    });
+
+    const fromWire = (wireSnapshot: unknown): Snapshot<V> => {
+      if (typeof wireSnapshot !== "object" || wireSnapshot === null)
+        throw invalid("snapshot is not an object");
+      const {
+        version,
+        actorId,
+        clock,
+        ops,
+        lobby,
+        compacted,
+        actors,
+        undoStack,
+        redoStack,
+        global,
+      } = wireSnapshot as Record<string, unknown>;
+      if (!isSupportedVersion(version))
+        throw invalid(`unsupported wire format version '${version}'`);
+      if (typeof actorId !== "string")
+        throw invalid(`snapshot has an invalid actorId '${actorId}'`);
+      if (
+        typeof clock !== "number" ||
+        !Number.isSafeInteger(clock) ||
+        clock < 0
+      )
+        throw invalid(`snapshot has an invalid clock '${clock}'`);
+      return {
+        actorId,
+        clock,
+        ops: decodeArray(ops, "ops", (op) => fromWireOp(op, valueCodec)),
+        lobby: decodeArray(lobby, "lobby", (op) => fromWireOp(op, valueCodec)),
+        compacted: decodeArray(compacted ?? [], "compacted", (entry) => {
+          if (!Array.isArray(entry) || entry.length !== 2)
+            throw invalid("compacted entry is not an [opId, preds] tuple");
+          const [opId, equivalent] = entry;
+          return [
+            decodeOpId(opId, "compacted opId"),
+            decodeArray(equivalent, "compacted preds", (pred) =>
+              decodeOpId(pred, "compacted pred"),
+            ),
+          ] as [OpId, OpId[]];
+        }),
+        actors: decodeArray(actors ?? [], "actors", (entry) => {
+          if (!Array.isArray(entry) || entry.length !== 2)
+            throw invalid("actors entry is not an [actorId, opIds] tuple");
+          const [remoteActorId, frontier] = entry;
+          if (typeof remoteActorId !== "string")
+            throw invalid(
+              `actors entry has an invalid actorId '${remoteActorId}'`,
+            );
+          return [
+            remoteActorId,
+            decodeArray(frontier, "actor frontier", (opId) =>
+              decodeOpId(opId, "actor frontier opId"),
+            ),
+          ] as [ActorId, OpId[]];
+        }),
+        undoStack: decodeArray(undoStack, "undoStack", (opId) =>
+          decodeOpId(opId, "undoStack entry"),
+        ),
+        redoStack: decodeArray(redoStack, "redoStack", (opId) =>
+          decodeOpId(opId, "redoStack entry"),
+        ),
+        global: (() => {
+          if (global === undefined)
+            return { undone: [], ops: [], redoStack: [] };
+          if (typeof global !== "object" || global === null)
+            throw invalid("global is not an object");
+          const { undone, ops, redoStack } = global as Record<string, unknown>;
+          return {
+            undone: decodeArray(undone, "global undone", (opId) =>
+              decodeOpId(opId, "global undone entry"),
+            ),
+            ops: decodeArray(ops, "global ops", (opId) =>
+              decodeOpId(opId, "global ops entry"),
+            ),
+            redoStack: decodeArray(redoStack, "global redoStack", (opId) =>
+              decodeOpId(opId, "global redoStack entry"),
+            ),
+          };
+        })(),
+      };
+    };
+
+    return {
+      toWire,
+      fromWire,
+      toJson: (snapshot: Snapshot<V>): string =>
+        JSON.stringify(toWire(snapshot)),
+      fromJson: (json: string): Snapshot<V> => fromWire(parseJson(json)),
+    };
+  },
+};
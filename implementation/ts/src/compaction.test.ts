@@ -0,0 +1,123 @@
+import { describe, expect, test } from "@jest/globals";
+import { SnapshotCodec } from "./codec";
+import { createLeftAndRight, generateUndoRedoSequence } from "./helpers";
+import { Picomerge } from "./picomerge";
+
+const terminalOps = <V>(picomerge: Picomerge<V>) =>
+  picomerge.terminalHeads().map(([op, _meta]) => op);
+
+const resolutionDepths = <V>(picomerge: Picomerge<V>) =>
+  picomerge.terminalHeads().map(([_op, meta]) => meta.resolutionDepth);
+
+describe("Picomerge: compaction of effect-free undo/redo sequences", () => {
+  test("alternating undo/redo sequence is compacted to constant resolution depth", () => {
+    const length = 10;
+    const [a, ops] = generateUndoRedoSequence("A", [1, 2], length);
+    const uncompacted = Picomerge.load(a.save(), "B");
+
+    expect(resolutionDepths(a)).toEqual([length + 1]);
+    const removed = a.compact();
+    // all pairs except the last one whose redo op is still a head
+    expect(removed).toEqual(ops.slice(0, -2).map((op) => op.opId));
+    expect(resolutionDepths(a)).toEqual([2]);
+    expect(a.get()).toEqual([2]);
+    expect(terminalOps(a)).toEqual(terminalOps(uncompacted));
+
+    // nothing left to compact
+    expect(a.compact()).toEqual([]);
+
+    // future undo and redo ops behave identically
+    const moreOps = [a.undo()!, a.undo()!, a.redo()!];
+    uncompacted.apply(moreOps);
+    expect(a.get()).toEqual([1]);
+    expect(terminalOps(a)).toEqual(terminalOps(uncompacted));
+    uncompacted.apply([a.redo()!]);
+    expect(a.get()).toEqual([2]);
+    expect(terminalOps(a)).toEqual(terminalOps(uncompacted));
+  });
+
+  test("compaction waits until all known actors have seen the sequence", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    a.apply([b.set(0)]);
+
+    const ops = [a.set(1), a.undo()!, a.redo()!, a.undo()!, a.redo()!];
+    b.apply(ops);
+    // B has not yet acknowledged any op of the sequence
+    expect(a.compact()).toEqual([]);
+
+    a.apply([b.set(2)]);
+    expect(a.compact()).toEqual(ops.slice(1).map((op) => op.opId));
+    // B has not yet seen an op of A acknowledging the last pair
+    expect(b.compact()).toEqual([ops[1].opId, ops[2].opId]);
+    expect([a.get(), b.get()]).toEqual([[2], [2]]);
+
+    b.apply([a.undo()]);
+    expect([a.get(), b.get()]).toEqual([[0], [0]]);
+  });
+
+  test("concurrent ops prevent the compaction of a pair", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    b.apply([a.set(1), a.set(2)]);
+
+    b.apply([a.undo()]);
+    // B's set is concurrent to A's redo, hence the undo has two successors
+    const concurrentSet = b.set(3);
+    const redoOp = a.redo()!;
+    a.apply([concurrentSet]);
+    b.apply([redoOp]);
+    b.apply([a.set(4)]);
+    a.apply([b.set(5)]);
+
+    expect(a.compact()).toEqual([]);
+    expect(a.get()).toEqual([5]);
+  });
+
+  test("compacted replicas can be saved, loaded and ignore redelivered ops", () => {
+    const [a, ops] = generateUndoRedoSequence("A", [1], 3);
+    a.compact();
+
+    const codec = SnapshotCodec.create<number>();
+    const loaded = Picomerge.load(codec.fromJson(codec.toJson(a.save())), "A");
+    expect(loaded.save()).toEqual(a.save());
+    expect(loaded.terminalHeads()).toEqual(a.terminalHeads());
+
+    loaded.apply(ops);
+    expect(loaded.save()).toEqual(a.save());
+
+    loaded.undo();
+    expect(loaded.get()).toEqual([]);
+    loaded.redo();
+    expect(loaded.get()).toEqual([1]);
+  });
+
+  test("replicas joining after a compaction can catch up", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(1);
+    a.set(2);
+    a.undo();
+    a.redo();
+    a.set(3);
+    a.set(4);
+    expect(a.compact()).toEqual([
+      [3, "A"],
+      [4, "A"],
+    ]);
+
+    const c = Picomerge.create<number>("C");
+    const ops = a.getOpsSince([]);
+    c.apply(ops);
+    expect(c.get()).toEqual([4]);
+    expect(c.missingDeps()).toEqual([]);
+    // the later ops reference the preds the removed pair is equivalent to
+    expect(ops.find(({ opId }) => opId[0] === 5)?.preds).toEqual(
+      new Set(["2@A"]),
+    );
+
+    // the sent ops are still duplicates of the original ops
+    a.apply(ops);
+    expect(a.getOpsSince(c.heads())).toEqual([]);
+    expect(a.get()).toEqual([4]);
+    c.apply([a.undo()]);
+    expect(c.get()).toEqual([3]);
+  });
+});
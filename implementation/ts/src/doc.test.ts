@@ -0,0 +1,102 @@
+import { describe, expect, test } from "@jest/globals";
+import { PicomergeDoc } from "./doc";
+import { OpId } from "./picomerge";
+
+const createDocs = () => ({
+  a: PicomergeDoc.create<string>("A"),
+  b: PicomergeDoc.create<string>("B"),
+});
+
+describe("PicomergeDoc", () => {
+  test("registers are addressed by key", () => {
+    const { a } = createDocs();
+    a.set(["title"], "Hello");
+    a.set(["settings", "theme"], "dark");
+    a.set(["settings", "font"], "serif");
+    a.delete(["settings", "font"]);
+
+    expect(a.get(["title"])).toEqual(["Hello"]);
+    expect(a.get(["settings", "theme"])).toEqual(["dark"]);
+    expect(a.get(["settings", "font"])).toEqual([]);
+    expect(a.get(["unknown"])).toEqual([]);
+    expect(a.keys()).toEqual([["title"], ["settings", "theme"]]);
+    expect(a.keys(["settings"])).toEqual([["settings", "theme"]]);
+    expect(() => a.set([], "root")).toThrow("A key must not be empty");
+  });
+
+  test("registers share a single clock", () => {
+    const { a, b } = createDocs();
+    const ops = [a.set(["x"], "1"), a.set(["y"], "2"), a.set(["x"], "3")];
+    expect(ops.map((op) => op.opId)).toEqual([
+      [1, "A"],
+      [2, "A"],
+      [3, "A"],
+    ]);
+    // a remote op of one register advances the clock of all registers
+    a.apply([b.set(["z"], "remote"), b.set(["z"], "remote2")]);
+    a.apply([b.set(["z"], "remote3")]);
+    expect(a.set(["y"], "4").opId).toEqual([4, "A"]);
+    b.apply(a.ops());
+    expect(b.set(["w"], "5").opId).toEqual([5, "B"]);
+    expect(a.ops().map((op) => op.opId)).toEqual(
+      a
+        .ops()
+        .map((op) => op.opId)
+        .sort(OpId.compare),
+    );
+  });
+
+  test("undo and redo span all registers", () => {
+    const { a } = createDocs();
+    a.set(["title"], "Hello");
+    a.set(["settings", "theme"], "dark");
+    a.set(["title"], "Hi");
+
+    a.undo();
+    expect([a.get(["title"]), a.get(["settings", "theme"])]).toEqual([
+      ["Hello"],
+      ["dark"],
+    ]);
+    a.undo();
+    expect([a.get(["title"]), a.get(["settings", "theme"])]).toEqual([
+      ["Hello"],
+      [],
+    ]);
+    expect(a.redoStack()).toEqual([["title"], ["settings", "theme"]]);
+
+    a.redo();
+    expect(a.get(["settings", "theme"])).toEqual(["dark"]);
+    a.undo();
+    a.undo();
+    expect(a.get(["title"])).toEqual([]);
+    expect(a.undo()).toBeUndefined();
+
+    a.redo();
+    // a new change clears the redo stack
+    a.set(["other"], "value");
+    expect(a.redo()).toBeUndefined();
+  });
+
+  test("replicas converge when exchanging doc ops", () => {
+    const { a, b } = createDocs();
+    b.apply([a.set(["title"], "Hello")]);
+    const concurrentOps = [a.set(["title"], "Hi"), a.set(["body"], "Text")];
+    b.apply([b.set(["title"], "Hey")]);
+    a.apply(b.getOpsSince(a.heads()));
+    b.apply(concurrentOps);
+
+    expect(a.get(["title"])).toEqual(b.get(["title"]));
+    expect(a.get(["title"])).toHaveLength(2);
+
+    b.apply([a.undo()]);
+    expect([a.get(["body"]), b.get(["body"])]).toEqual([[], []]);
+    // the undo restores the state b saw before its concurrent set
+    a.apply([b.undo()]);
+    expect([a.get(["title"]), b.get(["title"])]).toEqual([
+      ["Hello"],
+      ["Hello"],
+    ]);
+    expect(a.getOpsSince(b.heads())).toEqual([]);
+    expect(b.getOpsSince(a.heads())).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { ActorId, Clock, Op, OpId, Picomerge } from "./picomerge";
+
+/**
+ * The path of a register within a document, e.g., `["settings", "theme"]`.
+ * All registers sharing a path prefix form a (nested) map.
+ */
+export type Key = string[];
+type StringifiedKey = string; // via JSON.stringify(key)
+
+/**
+ * An op of a document, that is, an op of one of its registers
+ * carrying the key of that register.
+ */
+export type DocOp<V> = Op<V> & { key: Key };
+
+const withKey = <V, O extends Op<V>>(op: O, key: Key): O & { key: Key } => ({
+  ...op,
+  key: [...key],
+});
+
+const withoutKey = <V>(docOp: DocOp<V>): Op<V> => {
+  const { key: _key, ...op } = docOp;
+  return op as Op<V>;
+};
+
+const isPrefix = (prefix: Key, key: Key) =>
+  prefix.length <= key.length && prefix.every((part, i) => part === key[i]);
+
+/**
+ * A document is a map of keyed registers. All registers share a single
+ * Lamport clock, hence the ops of all registers form a single op log which is
+ * totally ordered by opId. The undo and redo stacks span all registers,
+ * that is, `undo()` reverts the last local change to _any_ register.
+ */
+export type PicomergeDoc<V> = ReturnType<typeof PicomergeDoc.create<V>>;
+export const PicomergeDoc = {
+  create: <V>(actorId: ActorId) => {
+    const clock = Clock.create(actorId);
+    // the registers are created lazily, on first local or remote use
+    const registers: Map<StringifiedKey, Picomerge<V>> = new Map();
+
+    // the keys of the registers touched by the local changes for undo/redo,
+    // the registers keep the actual undo and redo ops themselves
+    const undoStack: Key[] = [];
+    const redoStack: Key[] = [];
+
+    const registerOf = (key: Key): Picomerge<V> => {
+      if (key.length === 0) throw new Error("A key must not be empty");
+      const stringifiedKey = JSON.stringify(key);
+      let register = registers.get(stringifiedKey);
+      if (!register) {
+        register = Picomerge.create<V>(actorId, { clock });
+        registers.set(stringifiedKey, register);
+      }
+      return register;
+    };
+
+    const apply = (docOps: (DocOp<V> | undefined)[]) =>
+      docOps.forEach((docOp) => {
+        if (docOp === undefined) return;
+        registerOf(docOp.key).apply([withoutKey(docOp)]);
+      });
+
+    const get = (key: Key): V[] =>
+      registers.get(JSON.stringify(key))?.get() ?? [];
+
+    const set = (key: Key, value: V): DocOp<V> => {
+      const setOp = registerOf(key).set(value);
+      undoStack.push(key);
+      redoStack.length = 0;
+      return withKey(setOp, key);
+    };
+
+    const delete_ = (key: Key): DocOp<V> | undefined => {
+      const deleteOp = registerOf(key).delete();
+      if (!deleteOp) return;
+      undoStack.push(key);
+      redoStack.length = 0;
+      return withKey(deleteOp, key);
+    };
+
+    const undo = (): DocOp<V> | undefined => {
+      const key = undoStack.pop();
+      if (!key) return;
+      const undoOp = registerOf(key).undo();
+      redoStack.push(key);
+      return undoOp && withKey(undoOp, key);
+    };
+
+    const redo = (): DocOp<V> | undefined => {
+      const key = redoStack.pop();
+      if (!key) return;
+      const redoOp = registerOf(key).redo();
+      undoStack.push(key);
+      return redoOp && withKey(redoOp, key);
+    };
+
+    const keys = (prefix: Key = []): Key[] =>
+      [...registers.keys()]
+        .map((stringifiedKey): Key => JSON.parse(stringifiedKey))
+        .filter((key) => isPrefix(prefix, key) && get(key).length > 0);
+
+    const heads = (): OpId[] =>
+      [...registers.values()].flatMap((register) => register.heads());
+
+    const getOpsSince = (remoteHeads: OpId[]): DocOp<V>[] =>
+      [...registers.entries()]
+        .flatMap(([stringifiedKey, register]) =>
+          // heads of other registers are unknown to the register, hence ignored
+          register
+            .getOpsSince(remoteHeads)
+            .map((op) => withKey(op, JSON.parse(stringifiedKey))),
+        )
+        // the shared clock renders the order of opIds a causal order
+        .sort((a, b) => OpId.compare(a.opId, b.opId));
+
+    return {
+      apply,
+      get,
+      set,
+      delete: delete_,
+      undo,
+      redo,
+      undoStack: () => undoStack.map((key) => [...key]),
+      redoStack: () => redoStack.map((key) => [...key]),
+      /**
+       * The keys of all non-empty registers below the given prefix,
+       * e.g., the fields of a nested map.
+       */
+      keys,
+      /**
+       * The frontier of the op log, that is, the heads of all registers.
+       */
+      heads,
+      /**
+       * All applied ops of all registers which are not known to a remote
+       * replica given its heads, ordered by opId.
+       */
+      getOpsSince,
+      /**
+       * All applied ops of all registers, ordered by opId.
+       */
+      ops: () => getOpsSince([]),
+      hasOp: (opId: OpId): boolean =>
+        [...registers.values()].some((register) => register.hasOp(opId)),
+    };
+  },
+};
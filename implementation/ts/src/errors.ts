@@ -0,0 +1,36 @@
+/**
+ * The base class of the errors about incoming ops which are rejected by
+ * `Picomerge.apply()`, carrying the rejected op.
+ */
+export class InvalidOpError extends Error {
+  constructor(message: string, readonly op: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The op is not well-formed, e.g., it has an unknown kind, an invalid opId
+ * or a counter which is not greater than the counters of its preds.
+ */
+export class MalformedOpError extends InvalidOpError {}
+
+/**
+ * The op reuses the opId of another op with a different content.
+ */
+export class ConflictingOpError extends InvalidOpError {}
+
+/**
+ * The op is inconsistent with its causal past, e.g., the anchor of a restore
+ * op is not one of its ancestors. It is detected once the op is causally
+ * ready.
+ */
+export class InconsistentOpError extends InvalidOpError {}
+
+/**
+ * The hash of the op does not match its content or the hashes it references
+ * differ from the hashes of its preds at this replica, that is, two different
+ * ops with the same opId are in circulation. It is detected once the op is
+ * causally ready and only if the replica hashes its ops.
+ */
+export class IntegrityError extends InvalidOpError {}
@@ -0,0 +1,162 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight } from "./helpers";
+import { Picomerge } from "./picomerge";
+
+describe("Picomerge: global undo and redo", () => {
+  const color = {
+    black: "black",
+    red: "red",
+    green: "green",
+  } as const;
+
+  test("global undo and redo preconditions", () => {
+    const a = Picomerge.create<number>("A");
+    expect(a.globalUndo()).toBeUndefined();
+    expect(a.globalRedo()).toBeUndefined();
+
+    a.set(1);
+    a.globalUndo();
+    expect(a.get()).toEqual([]);
+    // the only op has already been undone globally
+    expect(a.globalUndo()).toBeUndefined();
+  });
+
+  test("global undo and redo end the current undo entry", () => {
+    const a = Picomerge.create<number>("A", {
+      coalesce: { interval: 1000, now: () => 0 },
+    });
+    a.set(1);
+    a.globalUndo();
+    a.set(2);
+    // the set after the global undo starts a new undo entry
+    expect(a.undoStack()).toHaveLength(2);
+    a.undo();
+    expect(a.get()).toEqual([]);
+
+    a.beginGroup();
+    expect(() => a.globalUndo()).toThrow(
+      "Cannot undo or redo while a group is open",
+    );
+    expect(() => a.globalRedo()).toThrow(
+      "Cannot undo or redo while a group is open",
+    );
+    a.endGroup();
+  });
+
+  test("figure 1 (lower scenario) with global undo and redo", () => {
+    const { left: a, right: b } = createLeftAndRight<string>("A", "B");
+
+    // initial state
+    b.apply([a.set(color.black)]);
+
+    // user A's coloring to red
+    b.apply([a.set(color.red)]);
+
+    // user B's coloring to green
+    a.apply([b.set(color.green)]);
+
+    expect([a.get(), b.get()]).toEqual([[color.green], [color.green]]);
+
+    // user A's global undo reverts user B's coloring
+    b.apply([a.globalUndo()]);
+    expect([a.get(), b.get()]).toEqual([[color.red], [color.red]]);
+
+    // another global undo reverts user A's coloring
+    b.apply([a.globalUndo()]);
+    expect([a.get(), b.get()]).toEqual([[color.black], [color.black]]);
+
+    b.apply([a.globalRedo()]);
+    expect([a.get(), b.get()]).toEqual([[color.red], [color.red]]);
+
+    b.apply([a.globalRedo()]);
+    expect([a.get(), b.get()]).toEqual([[color.green], [color.green]]);
+    expect(a.globalRedo()).toBeUndefined();
+
+    // after the global redos, B's coloring can be undone globally again
+    b.apply([a.globalUndo()]);
+    expect([a.get(), b.get()]).toEqual([[color.red], [color.red]]);
+  });
+
+  test("figure 7 with global undo: any actor reverts the last change", () => {
+    const { left: a, right: b } = createLeftAndRight<string>("A", "B");
+
+    b.apply([a.set(color.black)]);
+    b.apply([a.set(color.red)]);
+    a.apply([b.set(color.green)]);
+
+    // user A's local undo goes back to black
+    b.apply([a.undo()]);
+    expect([a.get(), b.get()]).toEqual([[color.black], [color.black]]);
+
+    // user B's global undo reverts user A's undo, acting like a redo
+    a.apply([b.globalUndo()]);
+    expect([a.get(), b.get()]).toEqual([[color.green], [color.green]]);
+  });
+
+  test("figure 2 with global undo: concurrent ops", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    b.apply([a.set(1)]);
+    a.apply([b.set(2)]);
+
+    const concurrentSetA = a.set(3);
+    const concurrentSetB = b.set(4);
+    a.apply([concurrentSetB]);
+    b.apply([concurrentSetA]);
+    expect([a.get(), b.get()]).toEqual([
+      [4, 3],
+      [4, 3],
+    ]);
+
+    // the most recent op is B's set (same counter, larger actorId) and
+    // the global undo restores the state before it, as a local undo does
+    const globalUndoOp = a.globalUndo()!;
+    expect(globalUndoOp.anchor).toEqual(concurrentSetB.opId);
+    b.apply([globalUndoOp]);
+    expect([a.get(), b.get()]).toEqual([[2], [2]]);
+
+    b.apply([a.globalRedo()]);
+    expect([a.get(), b.get()]).toEqual([
+      [4, 3],
+      [4, 3],
+    ]);
+  });
+
+  test("global undo coexists with the local undo stack", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    b.apply([a.set(1)]);
+    a.apply([b.set(2)]);
+
+    b.apply([a.globalUndo()]);
+    expect([a.get(), b.get()]).toEqual([[1], [1]]);
+    expect(a.undoStack().map((op) => op.opId)).toEqual([[1, "A"]]);
+
+    // the local undo still reverts A's own last op
+    b.apply([a.undo()]);
+    expect([a.get(), b.get()]).toEqual([[], []]);
+
+    b.apply([a.redo()]);
+    expect([a.get(), b.get()]).toEqual([[1], [1]]);
+    expect(a.globalRedoStack()).toHaveLength(1);
+
+    // a new local set clears the global redo stack
+    b.apply([a.set(3)]);
+    expect(a.globalRedo()).toBeUndefined();
+  });
+
+  test("global undo state survives save and load", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(1);
+    a.set(2);
+    a.globalUndo();
+
+    const loaded = Picomerge.load(a.save(), "A");
+    expect(loaded.globalRedoStack()).toEqual(a.globalRedoStack());
+    loaded.globalUndo();
+    expect(loaded.get()).toEqual([]);
+    loaded.globalRedo();
+    loaded.globalRedo();
+    expect(loaded.get()).toEqual([2]);
+  });
+});
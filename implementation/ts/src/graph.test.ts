@@ -0,0 +1,79 @@
+import { describe, expect, test } from "@jest/globals";
+import { GraphExporter } from "./graph";
+import { createLeftAndRight } from "./helpers";
+
+/**
+ * Figure 1 (lower scenario) of the paper with colors as values,
+ * up to A's undo.
+ */
+const createFigure1 = () => {
+  const { left: a, right: b } = createLeftAndRight<string>("A", "B");
+  b.apply([a.set("black")]);
+  b.apply([a.set("red")]);
+  a.apply([b.set("green")]);
+  b.apply([a.undo()]);
+  return { a, b };
+};
+
+describe("GraphExporter", () => {
+  test("DOT output", () => {
+    const { a } = createFigure1();
+    expect(GraphExporter.create<string>().toDot(a)).toBe(
+      [
+        "digraph {",
+        "  rankdir=RL;",
+        "  node [shape=box];",
+        '  n0 [label="1@A\\nset \\"black\\"", fillcolor="#add8e6", style="filled", penwidth=3];',
+        '  n1 [label="2@A\\nset \\"red\\"", fillcolor="#add8e6", style="filled"];',
+        '  n2 [label="3@B\\nset \\"green\\"", fillcolor="#add8e6", style="filled"];',
+        '  n3 [label="4@A\\nundo anchor 2@A", fillcolor="#ffa07a", style="filled"];',
+        "  n1 -> n0;",
+        "  n2 -> n1;",
+        "  n3 -> n2;",
+        '  n3 -> n1 [style=dashed, label="anchor"];',
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("Mermaid output", () => {
+    const { a } = createFigure1();
+    a.redo();
+    expect(GraphExporter.create<string>((value) => value).toMermaid(a)).toBe(
+      [
+        "flowchart RL",
+        '  n0["1@A<br/>set black"]:::set',
+        '  n1["2@A<br/>set red"]:::set',
+        '  n2["3@B<br/>set green"]:::set',
+        '  n3["4@A<br/>undo anchor 2@A"]:::undo',
+        '  n4["5@A<br/>redo anchor 4@A"]:::redo',
+        "  n1 --> n0",
+        "  n2 --> n1",
+        "  n3 --> n2",
+        "  n3 -. anchor .-> n1",
+        "  n4 --> n3",
+        "  n4 -. anchor .-> n3",
+        "  classDef set fill:#add8e6",
+        "  classDef undo fill:#ffa07a",
+        "  classDef redo fill:#98fb98",
+        "  classDef terminalHead stroke-width:3px",
+        "  class n2 terminalHead",
+      ].join("\n"),
+    );
+  });
+
+  test("lobby ops and their missing preds are rendered, too", () => {
+    const { a, b } = createFigure1();
+    const ops = [a.set("blue"), a.set("white")];
+    b.apply([ops[1]]);
+
+    const dot = GraphExporter.create<string>().toDot(b);
+    expect(dot).toContain(
+      '  n4 [label="6@A\\npending \\"white\\"", fillcolor="#ffffff", style="filled,dashed"];',
+    );
+    expect(dot).toContain(
+      '  n5 [label="5@A\\nmissing", fillcolor="#ffffff", style="filled,dashed"];',
+    );
+    expect(dot).toContain("  n4 -> n5;");
+  });
+});
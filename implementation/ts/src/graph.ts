@@ -0,0 +1,185 @@
+import { ChangeKind, Op, OpId, OpKind, Picomerge } from "./picomerge";
+
+/**
+ * The kind of a node of the operation graph: the intent of an applied op,
+ * `pending` for ops in the lobby and `missing` for the preds they wait for.
+ */
+export type NodeKind = ChangeKind | "pending" | "missing";
+
+type Node = {
+  opId: OpId;
+  kind: NodeKind;
+  label: string;
+  isTerminalHead: boolean;
+};
+
+/**
+ * Edges point from an op to its preds, to the anchor of a restore op and to
+ * the chosen sibling of a resolve op.
+ */
+type Edge = {
+  from: OpId;
+  to: OpId;
+  kind: "pred" | "anchor" | "chosen";
+};
+
+type Graph = { nodes: Node[]; edges: Edge[] };
+
+const payloadOf = <V>(op: Op<V>, formatValue: (value: V) => string) => {
+  switch (op.kind) {
+    case OpKind.set:
+      return formatValue(op.value);
+    case OpKind.delete:
+      return "";
+    case OpKind.restore:
+      return `anchor ${OpId.toString(op.anchor)}`;
+    case OpKind.resolve:
+      return `chosen ${OpId.toString(op.chosen)}`;
+  }
+};
+
+const toGraph = <V>(
+  picomerge: Picomerge<V>,
+  formatValue: (value: V) => string,
+): Graph => {
+  const terminalHeads = new Set(
+    picomerge.terminalHeads().map(([op, _metadata]) => OpId.toString(op.opId)),
+  );
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  const addOp = (op: Op<V>, kind: NodeKind) => {
+    const payload = payloadOf(op, formatValue);
+    nodes.push({
+      opId: op.opId,
+      kind,
+      label: `${OpId.toString(op.opId)}\n${kind}${payload && ` ${payload}`}`,
+      isTerminalHead: terminalHeads.has(OpId.toString(op.opId)),
+    });
+    [...op.preds].forEach((pred) =>
+      edges.push({ from: op.opId, to: OpId.fromString(pred), kind: "pred" }),
+    );
+    if (op.kind === OpKind.restore)
+      edges.push({ from: op.opId, to: op.anchor, kind: "anchor" });
+    if (op.kind === OpKind.resolve)
+      edges.push({ from: op.opId, to: op.chosen, kind: "chosen" });
+  };
+
+  picomerge.historyLog().forEach(({ op, kind }) => addOp(op, kind));
+  picomerge.lobbyOps().forEach((op) => addOp(op, "pending"));
+  picomerge.missingDeps().forEach((opId) =>
+    nodes.push({
+      opId,
+      kind: "missing",
+      label: `${OpId.toString(opId)}\nmissing`,
+      isTerminalHead: false,
+    }),
+  );
+  // edges to ops removed by a compaction are dropped
+  const known = new Set(nodes.map(({ opId }) => OpId.toString(opId)));
+  return {
+    nodes,
+    edges: edges.filter(({ to }) => known.has(OpId.toString(to))),
+  };
+};
+
+const colors: Record<NodeKind, string> = {
+  set: "#add8e6",
+  delete: "#d3d3d3",
+  undo: "#ffa07a",
+  redo: "#98fb98",
+  resolve: "#f0e68c",
+  pending: "#ffffff",
+  missing: "#ffffff",
+};
+
+// actorIds are arbitrary strings, hence nodes are identified by their index
+const nodeIds = (graph: Graph) =>
+  new Map(graph.nodes.map(({ opId }, i) => [OpId.toString(opId), `n${i}`]));
+
+const toDot = (graph: Graph): string => {
+  const ids = nodeIds(graph);
+  const escape = (label: string) =>
+    label.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+  const nodes = graph.nodes.map(({ opId, kind, label, isTerminalHead }) => {
+    const attributes = [
+      `label="${escape(label)}"`,
+      `fillcolor="${colors[kind]}"`,
+      `style="${
+        kind === "pending" || kind === "missing" ? "filled,dashed" : "filled"
+      }"`,
+      ...(isTerminalHead ? ["penwidth=3"] : []),
+    ];
+    return `  ${ids.get(OpId.toString(opId))} [${attributes.join(", ")}];`;
+  });
+  const edges = graph.edges.map(({ from, to, kind }) => {
+    const attributes =
+      kind === "pred" ? "" : ` [style=dashed, label="${kind}"]`;
+    return `  ${ids.get(OpId.toString(from))} -> ${ids.get(
+      OpId.toString(to),
+    )}${attributes};`;
+  });
+  return [
+    "digraph {",
+    "  rankdir=RL;",
+    "  node [shape=box];",
+    ...nodes,
+    ...edges,
+    "}",
+  ].join("\n");
+};
+
+const toMermaid = (graph: Graph): string => {
+  const ids = nodeIds(graph);
+  const escape = (label: string) =>
+    label.replace(/"/g, "#quot;").replace(/\n/g, "<br/>");
+  const kinds = [...new Set(graph.nodes.map(({ kind }) => kind))];
+  const nodes = graph.nodes.map(
+    ({ opId, kind, label }) =>
+      `  ${ids.get(OpId.toString(opId))}["${escape(label)}"]:::${kind}`,
+  );
+  // a node takes a single class via `:::`, further ones are assigned apart
+  const terminalHeads = graph.nodes
+    .filter(({ isTerminalHead }) => isTerminalHead)
+    .map(({ opId }) => `  class ${ids.get(OpId.toString(opId))} terminalHead`);
+  const edges = graph.edges.map(({ from, to, kind }) => {
+    const arrow = kind === "pred" ? "-->" : `-. ${kind} .->`;
+    return `  ${ids.get(OpId.toString(from))} ${arrow} ${ids.get(
+      OpId.toString(to),
+    )}`;
+  });
+  const classDefs = kinds.map(
+    (kind) =>
+      `  classDef ${kind} fill:${colors[kind]}${
+        kind === "pending" || kind === "missing" ? ",stroke-dasharray:4" : ""
+      }`,
+  );
+  return [
+    "flowchart RL",
+    ...nodes,
+    ...edges,
+    ...classDefs,
+    "  classDef terminalHead stroke-width:3px",
+    ...terminalHeads,
+  ].join("\n");
+};
+
+/**
+ * Renders the operation graph of a replica, that is, its applied ops, the
+ * ops in its lobby and the preds they are waiting for, as Graphviz DOT or
+ * Mermaid text, e.g., to reproduce the figures of the paper from live data.
+ * The nodes are colored by their kind and the terminal heads are drawn with
+ * a thick border. Values are formatted via JSON by default.
+ */
+export type GraphExporter<V> = ReturnType<typeof GraphExporter.create<V>>;
+export const GraphExporter = {
+  create: <V>(
+    // JSON.stringify returns undefined for the value undefined
+    formatValue: (value: V) => string = (value) =>
+      JSON.stringify(value) ?? "undefined",
+  ) => ({
+    toDot: (picomerge: Picomerge<V>): string =>
+      toDot(toGraph(picomerge, formatValue)),
+    toMermaid: (picomerge: Picomerge<V>): string =>
+      toMermaid(toGraph(picomerge, formatValue)),
+  }),
+};
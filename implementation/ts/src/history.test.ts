@@ -0,0 +1,130 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight } from "./helpers";
+import { Picomerge } from "./picomerge";
+
+describe("Picomerge: getAt", () => {
+  test("the register as of earlier heads", () => {
+    const a = Picomerge.create<number>("A");
+    expect(a.getAt([]).values).toEqual([]);
+
+    const firstOp = a.set(1);
+    const headsAfterFirst = a.heads();
+    a.set(2);
+    a.undo();
+    a.delete();
+
+    expect(a.getAt(headsAfterFirst).values).toEqual([1]);
+    expect(a.getAt(a.heads())).toEqual({
+      values: a.get(),
+      terminalHeads: a.terminalHeads(),
+    });
+    // ancestors of other given ops do not contribute
+    expect(a.getAt([firstOp.opId, ...a.heads()]).values).toEqual([]);
+    expect(() => a.getAt([[42, "A"]])).toThrow("not an applied op");
+  });
+
+  test("the register before the edits of another actor", () => {
+    const { left: alice, right: bob } = createLeftAndRight<string>(
+      "alice",
+      "bob",
+    );
+    bob.apply([alice.set("draft")]);
+    const beforeBob = alice.heads();
+    const concurrentSet = alice.set("final");
+    alice.apply([bob.set("edited"), bob.set("edited again")]);
+    bob.apply([concurrentSet]);
+    expect(alice.get()).toEqual(["edited again", "final"]);
+
+    expect(alice.getAt(beforeBob).values).toEqual(["draft"]);
+    // a frontier of concurrent ops shows their conflict
+    const conflict = alice.getAt([concurrentSet.opId, [2, "bob"]]);
+    expect(conflict.values).toEqual(["edited", "final"]);
+    expect(bob.getAt([concurrentSet.opId, [2, "bob"]])).toEqual(conflict);
+  });
+});
+
+describe("Picomerge: historyLog", () => {
+  test("every applied op with its intent and resulting values", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    a.set(1);
+    a.apply([b.set(2)]);
+    a.resolve({ value: 2 });
+    a.undo();
+    a.redo();
+
+    expect(
+      a
+        .historyLog()
+        .map(({ op, kind, values }) => ({ opId: op.opId, kind, values })),
+    ).toEqual([
+      { opId: [1, "A"], kind: "set", values: [1] },
+      { opId: [1, "B"], kind: "set", values: [2] },
+      { opId: [2, "A"], kind: "resolve", values: [2] },
+      { opId: [3, "A"], kind: "undo", values: [2, 1] },
+      { opId: [4, "A"], kind: "redo", values: [2] },
+    ]);
+  });
+});
+
+describe("Picomerge: restoreTo", () => {
+  test("a past version is restored as a single undo entry", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(1);
+    const version = a.heads();
+    a.set(2);
+    a.set(3);
+
+    const ops = a.restoreTo(version);
+    expect(ops).toHaveLength(1);
+    expect(a.get()).toEqual([1]);
+    expect(a.undoStack()).toHaveLength(4);
+    expect(a.restoreTo(version)).toEqual([]);
+
+    a.undo();
+    expect(a.get()).toEqual([3]);
+    a.redo();
+    expect(a.get()).toEqual([1]);
+
+    // the empty frontier is the initial, empty register
+    a.restoreTo([]);
+    expect(a.get()).toEqual([]);
+    a.undo();
+    expect(a.get()).toEqual([1]);
+  });
+
+  test("a past conflict is restored with its siblings", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    const concurrentSet = a.set(1);
+    a.apply([b.set(2)]);
+    b.apply([concurrentSet]);
+    const version = a.heads();
+    expect(a.get()).toEqual([2, 1]);
+    b.apply([a.resolve({ value: 1 }), a.set(3)]);
+
+    const ops = a.restoreTo(version);
+    expect(ops).toHaveLength(2);
+    b.apply(ops);
+    expect([a.get(), b.get()]).toEqual([
+      [2, 1],
+      [2, 1],
+    ]);
+
+    // a single undo brings back the value before the restore
+    b.apply([a.undo()]);
+    expect([a.get(), b.get()]).toEqual([[3], [3]]);
+  });
+
+  test("concurrent remote ops are merged with the restored values", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    b.apply([a.set(1)]);
+    const version = a.heads();
+    b.apply([a.set(2)]);
+
+    const restoreOps = a.restoreTo(version);
+    const concurrentSet = b.set(3);
+    a.apply([concurrentSet]);
+    b.apply(restoreOps);
+    expect(a.get()).toEqual(b.get());
+    expect([...a.get()].sort()).toEqual([1, 3]);
+  });
+});
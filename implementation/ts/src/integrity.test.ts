@@ -0,0 +1,174 @@
+import { describe, expect, test } from "@jest/globals";
+import { OpCodec } from "./codec";
+import { IntegrityError } from "./errors";
+import { OpHash, OpId, Picomerge } from "./picomerge";
+
+const createHashing = (actorId: string) =>
+  Picomerge.create<number>(actorId, { hashing: true });
+
+describe("Picomerge: content-addressed ops", () => {
+  test("ops carry the hashes of their content and of their preds", () => {
+    const a = createHashing("A");
+    const b = createHashing("B");
+    const firstOp = a.set(1);
+    expect(firstOp.hash).toBe(OpHash.of(firstOp));
+    expect(firstOp.predHashes).toEqual({});
+
+    b.apply([firstOp]);
+    const secondOp = b.set(2);
+    expect(secondOp.predHashes).toEqual({ "1@A": firstOp.hash });
+    const concurrentUndo = b.undo()!;
+    a.apply([secondOp]);
+    b.apply([a.undo()!]);
+    a.apply([concurrentUndo]);
+
+    expect(a.get()).toEqual(b.get());
+    expect(a.headHashes()).toHaveLength(a.heads().length);
+    expect(a.headHashes()).toEqual(b.headHashes());
+    expect(a.headHashes().map(([opId, _hash]) => opId)).toEqual(
+      a.heads().sort(OpId.compare),
+    );
+
+    // heads without a hash are still compared by their opIds
+    const c = Picomerge.create<number>("C");
+    const d = Picomerge.create<number>("D");
+    c.set(1);
+    d.set(1);
+    expect(c.headHashes()).toEqual([[[1, "C"], null]]);
+    expect(c.headHashes()).not.toEqual(d.headHashes());
+  });
+
+  test("the hashes survive the codecs", () => {
+    const a = createHashing("A");
+    const b = createHashing("B");
+    const codec = OpCodec.create<number>();
+    a.set(1);
+    a.set(2);
+    a.undo();
+    const ops = a.getOpsSince([]);
+
+    b.apply(ops.map((op) => codec.fromJson(codec.toJson(op))));
+    expect(b.headHashes()).toEqual(a.headHashes());
+    const c = createHashing("C");
+    c.apply(ops.map((op) => codec.fromBinary(codec.toBinary(op))));
+    expect(c.headHashes()).toEqual(a.headHashes());
+  });
+
+  test("ops whose hash does not match their content are rejected", () => {
+    const a = createHashing("A");
+    const b = createHashing("B");
+    const setOp = a.set(1);
+
+    expect(() => b.apply([{ ...setOp, value: 2 }])).toThrow(IntegrityError);
+    expect(() => b.apply([{ ...setOp, value: 2 }])).toThrow(
+      "Integrity violation of op 1@A: the hash does not match the content",
+    );
+    const unhashedOp = Picomerge.create<number>("C").set(3);
+    expect(() => b.apply([unhashedOp])).toThrow("the op carries no hash");
+    expect(b.get()).toEqual([]);
+
+    // ops claiming to stem from the local actor are verified, too
+    const forgedOp = { ...unhashedOp, opId: OpId.create(5, "B") };
+    expect(() => b.apply([forgedOp])).toThrow("the op carries no hash");
+    expect(b.get()).toEqual([]);
+  });
+
+  test("values are hashed via the value codec", () => {
+    const bigintCodec = {
+      encode: (value: bigint) => value.toString(),
+      decode: (encoded: string) => BigInt(encoded),
+    };
+    const a = Picomerge.create<bigint>("A", {
+      hashing: true,
+      valueCodec: bigintCodec,
+    });
+    const b = Picomerge.create<bigint>("B", {
+      hashing: true,
+      valueCodec: bigintCodec,
+    });
+    const codec = OpCodec.create(bigintCodec);
+    b.apply([codec.fromBinary(codec.toBinary(a.set(BigInt(1))))]);
+    expect(b.get()).toEqual([BigInt(1)]);
+    expect(b.headHashes()).toEqual(a.headHashes());
+
+    // values which are indistinguishable via JSON
+    const mapCodec = {
+      encode: (value: Map<string, number>) => JSON.stringify([...value]),
+      decode: (encoded: string) => new Map<string, number>(JSON.parse(encoded)),
+    };
+    const c = Picomerge.create<Map<string, number>>("C", {
+      hashing: true,
+      valueCodec: mapCodec,
+    });
+    const d = Picomerge.create<Map<string, number>>("D", {
+      hashing: true,
+      valueCodec: mapCodec,
+    });
+    const setOp = c.set(new Map([["x", 1]]));
+    expect(() => d.apply([{ ...setOp, value: new Map([["x", 2]]) }])).toThrow(
+      "the hash does not match the content",
+    );
+    d.apply([setOp]);
+    expect(() => d.apply([{ ...setOp, value: new Map([["x", 2]]) }])).toThrow(
+      "Conflicting op: 1@C is already in use",
+    );
+  });
+
+  test("two different ops with the same opId are detected", () => {
+    const a = createHashing("A");
+    const b = createHashing("B");
+    // a malicious peer sends different ops with the same opId to a and b
+    const malicious = createHashing("M");
+    const otherMalicious = createHashing("M");
+    a.apply([malicious.set(1)]);
+    b.apply([otherMalicious.set(2)]);
+
+    // the same heads, but different head hashes
+    expect(a.heads()).toEqual(b.heads());
+    expect(a.headHashes()).not.toEqual(b.headHashes());
+
+    const setOp = b.set(3);
+    expect(() => a.apply([setOp])).toThrow(
+      `Integrity violation of op 2@B: the hash of pred 1@M differs from the local one`,
+    );
+    expect(a.get()).toEqual([1]);
+    expect(a.missingDeps()).toEqual([]);
+    expect(a.hasOp(OpId.create(2, "B"))).toBe(false);
+  });
+
+  test("the hashes are restored from a snapshot", () => {
+    const a = createHashing("A");
+    a.set(1);
+    a.set(2);
+    const loaded = Picomerge.load<number>(a.save(), "A", {
+      hashing: true,
+    });
+    expect(loaded.headHashes()).toEqual(a.headHashes());
+    expect(loaded.set(3).predHashes).toEqual({ "2@A": a.headHashes()[0][1] });
+  });
+
+  test("hashing can be enabled when loading an unhashed snapshot", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(1);
+    a.set(2);
+    a.undo();
+    const snapshot = a.save();
+
+    const loaded = Picomerge.load<number>(snapshot, "A", { hashing: true });
+    expect(loaded.get()).toEqual(a.get());
+    expect(loaded.headHashes()).toEqual([[[3, "A"], null]]);
+    const redoOp = loaded.redo()!;
+    expect(redoOp.hash).toBe(OpHash.of(redoOp));
+    expect(redoOp.predHashes).toEqual({});
+    const setOp = loaded.set(3);
+    expect(loaded.set(4).predHashes).toEqual({ "5@A": setOp.hash });
+
+    // peers with hashing enabled accept the unhashed ops from a snapshot only
+    const b = createHashing("B");
+    expect(() => b.apply(a.getOpsSince([]))).toThrow("the op carries no hash");
+    const c = Picomerge.load<number>(snapshot, "C", { hashing: true });
+    c.apply(loaded.getOpsSince(c.heads()));
+    expect(c.get()).toEqual([4]);
+    expect(c.headHashes()).toEqual(loaded.headHashes());
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, test } from "@jest/globals";
 import { createLeftAndRight } from "./helpers";
-import { OpId, Picomerge } from "./picomerge";
+import { OpId, OpKind, Picomerge } from "./picomerge";
 
 describe("OpId", () => {
   describe("compare", () => {
@@ -33,6 +33,56 @@ describe("OpId", () => {
       expect(OpId.compare(e, d)).toBe(1);
     });
   });
+
+  test("string conversion is lossless for arbitrary actor ids", () => {
+    for (const actorId of ["a", "alice@example.com", "@", "1@2@3", ""]) {
+      const opId = OpId.create(42, actorId);
+      expect(OpId.fromString(OpId.toString(opId))).toEqual(opId);
+    }
+  });
+});
+
+describe("Picomerge: delete", () => {
+  test("undefined is a value, whereas a delete removes all values", () => {
+    const { left, right } = createLeftAndRight<number | undefined>();
+    right.apply([left.set(undefined)]);
+    expect([left.get(), right.get()]).toEqual([[undefined], [undefined]]);
+
+    const deleteOp = left.delete()!;
+    expect(deleteOp.kind).toBe(OpKind.delete);
+    expect("value" in deleteOp).toBe(false);
+    right.apply([deleteOp]);
+    expect([left.get(), right.get()]).toEqual([[], []]);
+    expect(left.delete()).toBeUndefined();
+
+    right.apply([left.undo()]);
+    expect([left.get(), right.get()]).toEqual([[undefined], [undefined]]);
+    right.apply([left.redo()]);
+    expect([left.get(), right.get()]).toEqual([[], []]);
+  });
+});
+
+describe("Picomerge: actor ids", () => {
+  test("actor ids may contain the separator of stringified opIds", () => {
+    const { left, right } = createLeftAndRight<number>(
+      "alice@example.com",
+      "bob@example.com",
+    );
+    right.apply([left.set(1)]);
+    left.apply([right.set(2)]);
+    right.apply([left.set(3), left.undo()]);
+    expect([left.get(), right.get()]).toEqual([[2], [2]]);
+    expect(right.heads()).toEqual([[4, "alice@example.com"]]);
+    expect(right.terminalHeads()[0][1].opIdTrace).toEqual([
+      "4@alice@example.com",
+      "2@bob@example.com",
+    ]);
+
+    const loaded = Picomerge.load(left.save(), "alice@example.com");
+    expect(loaded.terminalHeads()).toEqual(left.terminalHeads());
+    expect(loaded.redo()).toBeDefined();
+    expect(loaded.get()).toEqual([3]);
+  });
 });
 
 describe("Picomerge: get, set and delete without undo and redo", () => {
@@ -127,4 +177,34 @@ describe("Picomerge: get, set and delete without undo and redo", () => {
     right.apply([leftOps[0]]);
     expect(right.get()).toEqual([3]);
   });
+
+  test("a long history delivered in reverse order is applied all at once", () => {
+    const { left, right } = createLeftAndRight<number>();
+
+    const length = 10_000;
+    const leftOps = Array.from({ length }, (_, i) => left.set(i));
+
+    right.apply(leftOps.slice(1).reverse());
+    expect(right.get()).toEqual([]);
+    expect(right.missingDeps()).toEqual([leftOps[0].opId]);
+
+    right.apply([leftOps[0]]);
+    expect(right.get()).toEqual([length - 1]);
+    expect(right.missingDeps()).toEqual([]);
+  });
+
+  test("operations waiting for several preds are applied after the last one", () => {
+    const { left, right } = createLeftAndRight<number>();
+    const observer = Picomerge.create<number>("observer");
+
+    const leftOp = left.set(1);
+    const rightOp = right.set(2);
+    left.apply([rightOp]);
+    const mergeOp = left.set(3);
+
+    observer.apply([mergeOp, leftOp]);
+    expect(observer.get()).toEqual([1]);
+    observer.apply([rightOp]);
+    expect(observer.get()).toEqual([3]);
+  });
 });
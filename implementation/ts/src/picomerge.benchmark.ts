@@ -1,6 +1,6 @@
 import fs from "fs";
 import { generateSetSequence, generateUndoRedoSequence } from "./helpers";
-import { Picomerge } from "./picomerge";
+import { Op, Picomerge } from "./picomerge";
 
 type BenchmarkSuite<T extends string = string> = {
   name: string;
@@ -174,6 +174,62 @@ const undoRedoSeqRedoResults = lengths.map((length) => {
   return [length, redo] as const;
 });
 
+lengths = [1000, 2000, 3000, 4000];
+
+// a deterministic pseudo-random number generator (mulberry32),
+// such that all runs deliver the ops in the same order
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shuffle = <T>(array: T[], random: () => number) => {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+let ops: Op<number>[];
+
+const outOfOrderReversedResults = lengths.map((length) => {
+  const apply: BenchmarkSuite = {
+    name: `applying a sequence of length ${length} in reverse order`,
+    beforeEach: () => {
+      ops = generateSetSequence("A", length)[1].reverse();
+      instance = Picomerge.create("B");
+    },
+    benchmarks: {
+      ["apply"]: () => {
+        instance.apply(ops);
+      },
+    },
+    options: { iterations: 16 },
+  };
+  return [length, apply] as const;
+});
+
+const outOfOrderShuffledResults = lengths.map((length) => {
+  const apply: BenchmarkSuite = {
+    name: `applying a sequence of length ${length} in shuffled order`,
+    beforeEach: () => {
+      ops = shuffle(generateSetSequence("A", length)[1], createRandom(length));
+      instance = Picomerge.create("B");
+    },
+    benchmarks: {
+      ["apply"]: () => {
+        instance.apply(ops);
+      },
+    },
+    options: { iterations: 16 },
+  };
+  return [length, apply] as const;
+});
+
 const extractMeanFromBench = (name: string, results: BenchmarkResults) => {
   const benchmark = results.benchmarks[name];
   if (!benchmark) throw new Error(`Benchmark ${name} not found`);
@@ -210,3 +266,5 @@ driveBenchmark("undoRedoSeqUndo", "undo", undoRedoSeqUndoResults);
 driveBenchmark("undoRedoSeqRedo", "redo", undoRedoSeqRedoResults);
 driveBenchmark("altUndoRedoSeqUndo", "undo", altUndoRedoSeqUndoResults);
 driveBenchmark("altUndoRedoSeqRedo", "redo", altUndoRedoSeqRedoResults);
+driveBenchmark("outOfOrderReversed", "apply", outOfOrderReversedResults);
+driveBenchmark("outOfOrderShuffled", "apply", outOfOrderShuffledResults);
@@ -1,15 +1,32 @@
-import { partition, zip } from "./utils";
+import { createHash } from "crypto";
+import {
+  ConflictingOpError,
+  InconsistentOpError,
+  IntegrityError,
+  InvalidOpError,
+  MalformedOpError,
+} from "./errors";
+import type { ValueCodec } from "./codec";
 
 /**
  * A unique identifier of an actor.
  */
-type ActorId = string;
+export type ActorId = string;
 /**
  * ctr@actorId, where the ctr is a timestamp obtained from a Lamport clock
  * and together with the actorId they form a Lamport timestamp ("Lampstamp").
  */
-type OpId = [number, ActorId];
-type StringifiedOpId = string; // via OpId.toString(opId) ctr@actorId
+export type OpId = [number, ActorId];
+export type StringifiedOpId = string; // via OpId.toString(opId) ctr@actorId
+/**
+ * A unique identifier of a user, who may edit from several devices,
+ * that is, actors.
+ */
+export type UserId = string;
+/**
+ * The hex-encoded SHA-256 hash of the content of an op (see `OpHash.of()`).
+ */
+export type OpHash = string;
 
 /**
  * A multi-value register (MVR) is a register that can hold multiple values
@@ -47,26 +64,82 @@ type ResolutionMetadata = {
   resolutionDepth: ResolutionDepth;
 };
 
-type OpKind = (typeof OpKind)[keyof typeof OpKind];
-const OpKind = {
+/**
+ * An opIdTrace as a persistent linked list, such that the traces of ops
+ * share their tails with the traces of the ops they are resolved through.
+ */
+type Trace = { opId: InternedOpId; next: Trace | null };
+const Trace = {
+  of: (opId: InternedOpId): Trace => ({ opId, next: null }),
+  prepend: (opId: InternedOpId, trace: Trace): Trace => ({
+    opId,
+    next: trace,
+  }),
+  compare: (a: Trace, b: Trace, interner: OpIdInterner) => {
+    for (let x: Trace | null = a, y: Trace | null = b; x && y; ) {
+      const comparison = interner.compare(x.opId, y.opId);
+      if (comparison !== 0) return comparison;
+      x = x.next;
+      y = y.next;
+    }
+    throw new Error(
+      "Impossible: Each path from a head to a terminal op must be unique",
+    );
+  },
+  toMetadata: (
+    trace: Trace,
+    depth: ResolutionDepth,
+    interner: OpIdInterner,
+  ): ResolutionMetadata => {
+    let opIdTrace: OpIdTrace | undefined;
+    return {
+      // materialized lazily, as its length grows with the resolution depth
+      get opIdTrace() {
+        if (!opIdTrace) {
+          opIdTrace = [];
+          for (let x: Trace | null = trace; x; x = x.next)
+            opIdTrace.push(interner.toString(x.opId));
+        }
+        return opIdTrace;
+      },
+      resolutionDepth: depth,
+    };
+  },
+};
+
+/**
+ * The resolution of an op to one of the terminal ops it produces.
+ */
+type Resolution<V> = {
+  terminalOp: TerminalOp<V>;
+  trace: Trace;
+  depth: ResolutionDepth;
+};
+
+export type OpKind = (typeof OpKind)[keyof typeof OpKind];
+export const OpKind = {
   set: 0,
   restore: 1,
+  delete: 2,
+  resolve: 3,
 } as const;
 
 /**
- * An operation is either a `set` operation or a `restore` operation.
+ * An operation is either a `set`, a `delete`, a `restore` or a `resolve`
+ * operation.
  */
-export type Op<V> = SetOp<V> | RestoreOp;
+export type Op<V> = SetOp<V> | DeleteOp | RestoreOp | ResolveOp;
 /**
- * Terminal operations are operations that produce a value and do not search
- * the operation history for the values they might produce.
- * Currently only `set` operations are terminal operations but a `delete` operation
- * may be modeled as a distinct operation kind (instead of using `set` with `undefined`,
- * how it is done here).
- * If that alternative approach is chosen, the `delete` operation would also
- * be a terminal operation.
+ * Terminal operations are operations that produce a value (or the absence
+ * of a value) and do not search the operation history for the values they
+ * might produce, that is, `set` and `delete` operations.
  */
-export type TerminalOp<V> = SetOp<V>;
+export type TerminalOp<V> = SetOp<V> | DeleteOp;
+/**
+ * The operations which are pushed to the undo stack, that is, the local
+ * changes a user intends to make.
+ */
+export type UndoableOp<V> = TerminalOp<V> | ResolveOp;
 
 /**
  * Shared by all operations.
@@ -77,15 +150,39 @@ type OpBase = {
    * Preds is empty iff it is a peer's initial operation on the register.
    */
   preds: Set<StringifiedOpId>;
+  /**
+   * The user who generated the op, only present if the replica has been
+   * created with a user identity.
+   */
+  userId?: UserId;
+  /**
+   * The hash of the op's content, which includes the hashes of its preds,
+   * such that the hash of an op covers its whole causal past. Only present
+   * if the replica hashes its ops (see `PicomergeOptions.hashing`).
+   */
+  hash?: OpHash;
+  /**
+   * The hashes of the preds, by pred, as known to the generating replica.
+   * Preds without a known hash (e.g., ops from before hashing was enabled)
+   * are omitted.
+   */
+  predHashes?: Record<StringifiedOpId, OpHash>;
 };
 
 /**
- * The operation of kind `set` is used for both setting a value in the register
- * and deleting value(s) from the register.
+ * The operation of kind `set` sets a value in the register, which may be any
+ * value including `undefined`.
  */
-type SetOp<V> = OpBase & {
+export type SetOp<V> = OpBase & {
   kind: typeof OpKind.set;
-  value?: V;
+  value: V;
+};
+
+/**
+ * The operation of kind `delete` deletes the value(s) from the register.
+ */
+export type DeleteOp = OpBase & {
+  kind: typeof OpKind.delete;
 };
 
 /**
@@ -93,19 +190,67 @@ type SetOp<V> = OpBase & {
  * In general, it restores to the state immediately before the referenced operation
  * in the `anchor` field.
  */
-type RestoreOp = OpBase & {
+export type RestoreOp = OpBase & {
   kind: typeof OpKind.restore;
   anchor: OpId;
 };
 
+/**
+ * The operation of kind `resolve` resolves a conflict of concurrent siblings
+ * by picking one of them, the `chosen` terminal op, which is then the only
+ * terminal head. Undoing it brings the conflict back.
+ */
+export type ResolveOp = OpBase & {
+  kind: typeof OpKind.resolve;
+  chosen: OpId;
+};
+
+/**
+ * A self-contained snapshot of a replica, sufficient to rebuild it via
+ * `Picomerge.load()`. The undo and redo stacks only reference operations
+ * (by their opId) which are contained in `ops`.
+ */
+export type Snapshot<V> = {
+  actorId: ActorId;
+  /**
+   * The current counter of the replica's Lamport clock.
+   */
+  clock: number;
+  /**
+   * All applied operations in the order they have been applied,
+   * which is a causal order.
+   */
+  ops: Op<V>[];
+  /**
+   * All operations which are not yet causally ready.
+   */
+  lobby: Op<V>[];
+  /**
+   * The ops removed by compactions, each with the preds it is equivalent to.
+   */
+  compacted: [OpId, OpId[]][];
+  /**
+   * The remote actors participating in the register, each with the opIds
+   * it is known to have seen.
+   */
+  actors: [ActorId, OpId[]][];
+  undoStack: OpId[];
+  redoStack: OpId[];
+  /**
+   * The state of global undo and redo (see `Picomerge.globalUndo()`).
+   */
+  global: { undone: OpId[]; ops: OpId[]; redoStack: OpId[] };
+};
+
 export const OpId = {
   create: (ctr: number, actorId: ActorId): OpId => [ctr, actorId],
   actor: (opId: OpId): ActorId => opId[1],
   ctr: (opId: OpId): number => opId[0],
   toString: (opId: OpId): string => `${opId[0]}@${opId[1]}`,
   fromString: (str: string): OpId => {
-    const [ctr, actorId] = str.split("@");
-    return [parseInt(ctr, 10), actorId];
+    // the actorId may contain "@" itself, the ctr never does
+    const separator = str.indexOf("@");
+    return [parseInt(str.slice(0, separator), 10), str.slice(separator + 1)];
   },
   compare: (a: OpId, b: OpId): -1 | 0 | 1 => {
     const [aCtr, aActorId] = a;
@@ -119,8 +264,209 @@ export const OpId = {
   },
 };
 
-type Clock = ReturnType<typeof Clock.create>;
-const Clock = {
+/**
+ * The ctrs of opIds are less than `MAX_CTR`, such that an opId can be packed
+ * into a single safe integer (see `InternedOpId`).
+ */
+export const MAX_CTR = 2 ** 32;
+
+const isValidOpId = (opId: unknown): opId is OpId =>
+  Array.isArray(opId) &&
+  opId.length === 2 &&
+  Number.isSafeInteger(opId[0]) &&
+  opId[0] > 0 &&
+  opId[0] < MAX_CTR &&
+  typeof opId[1] === "string";
+
+// checks the shape of an op stemming from an untrusted source, including
+// that its ctr is greater than the ctrs of the ops it references
+const malformationOf = (op: unknown): MalformedOpError | undefined => {
+  const malformed = (reason: string) =>
+    new MalformedOpError(`Malformed op: ${reason}`, op);
+  if (typeof op !== "object" || op === null) return malformed("not an object");
+  const { opId, kind, preds, userId, hash, predHashes } = op as Record<
+    string,
+    unknown
+  >;
+  if (!isValidOpId(opId)) return malformed("invalid opId");
+  const isOlder = (other: unknown) =>
+    isValidOpId(other) && OpId.ctr(other) < OpId.ctr(opId);
+  if (!Object.values(OpKind).some((known) => known === kind))
+    return malformed(`unknown kind '${kind}' of ${OpId.toString(opId)}`);
+  if (!(preds instanceof Set))
+    return malformed(`preds of ${OpId.toString(opId)} is not a set`);
+  for (const pred of preds) {
+    const predId = typeof pred === "string" ? OpId.fromString(pred) : null;
+    if (!isOlder(predId) || OpId.toString(predId!) !== pred)
+      return malformed(`invalid pred '${pred}' of ${OpId.toString(opId)}`);
+  }
+  if (userId !== undefined && typeof userId !== "string")
+    return malformed(`invalid userId of ${OpId.toString(opId)}`);
+  if (hash !== undefined && typeof hash !== "string")
+    return malformed(`invalid hash of ${OpId.toString(opId)}`);
+  if (
+    predHashes !== undefined &&
+    (typeof predHashes !== "object" ||
+      predHashes === null ||
+      Object.entries(predHashes).some(
+        ([pred, predHash]) => !preds.has(pred) || typeof predHash !== "string",
+      ))
+  )
+    return malformed(`invalid pred hashes of ${OpId.toString(opId)}`);
+  if (kind === OpKind.set && !("value" in op))
+    return malformed(`set op ${OpId.toString(opId)} without a value`);
+  if (kind === OpKind.restore && !isOlder((op as RestoreOp).anchor))
+    return malformed(`invalid anchor of ${OpId.toString(opId)}`);
+  if (kind === OpKind.resolve && !isOlder((op as ResolveOp).chosen))
+    return malformed(`invalid chosen opId of ${OpId.toString(opId)}`);
+};
+
+// encodes values as the default value codec of the codecs does
+const encodeJson = <V>(value: V): string => JSON.stringify(value);
+
+// values are usually decoded from the wire, hence they are compared
+// structurally (via their encoding) if they are not identical; values which
+// cannot be encoded are only equal if they are identical
+const isSameValue = <V>(
+  a: V,
+  b: V,
+  encodeValue: (value: V) => string,
+): boolean => {
+  if (Object.is(a, b)) return true;
+  try {
+    return encodeValue(a) === encodeValue(b);
+  } catch {
+    return false;
+  }
+};
+
+const isSameOp = <V>(
+  a: Op<V>,
+  b: Op<V>,
+  encodeValue: (value: V) => string,
+): boolean => {
+  if (
+    a.kind !== b.kind ||
+    a.userId !== b.userId ||
+    a.preds.size !== b.preds.size ||
+    [...a.preds].some((pred) => !b.preds.has(pred))
+  )
+    return false;
+  switch (a.kind) {
+    case OpKind.set:
+      return isSameValue(a.value, (b as SetOp<V>).value, encodeValue);
+    case OpKind.delete:
+      return true;
+    case OpKind.restore:
+      return OpId.compare(a.anchor, (b as RestoreOp).anchor) === 0;
+    case OpKind.resolve:
+      return OpId.compare(a.chosen, (b as ResolveOp).chosen) === 0;
+  }
+};
+
+export const OpHash = {
+  /**
+   * Hashes the content of an op, i.e., everything but its own hash, in
+   * a canonical form: the preds are sorted and values are hashed via their
+   * encoding, which defaults to JSON like the default value codec.
+   */
+  of: <V>(
+    op: Op<V>,
+    encodeValue: (value: V) => string = encodeJson,
+  ): OpHash => {
+    const payload = (() => {
+      switch (op.kind) {
+        case OpKind.set:
+          // the value undefined is never encoded, like in the codecs
+          return op.value === undefined ? null : [encodeValue(op.value)];
+        case OpKind.delete:
+          return null;
+        case OpKind.restore:
+          return OpId.toString(op.anchor);
+        case OpKind.resolve:
+          return OpId.toString(op.chosen);
+      }
+    })();
+    const content = JSON.stringify([
+      OpId.toString(op.opId),
+      op.kind,
+      op.userId ?? null,
+      [...op.preds].sort().map((pred) => [pred, op.predHashes?.[pred] ?? null]),
+      payload,
+    ]);
+    return createHash("sha256").update(content).digest("hex");
+  },
+};
+
+/**
+ * An opId as used internally by a replica: the ctr and the index of the actor
+ * within the replica's actor table packed into a single number, which is
+ * a cheap key of maps and sets and is compared without parsing.
+ * Interned opIds are local to a replica and never leave it.
+ */
+type InternedOpId = number;
+
+// the size of an actor table, leaving `MAX_CTR` ctrs within the safe integers
+const MAX_ACTORS = 2 ** 21;
+
+type OpIdInterner = ReturnType<typeof OpIdInterner.create>;
+const OpIdInterner = {
+  create: () => {
+    const actorIds: ActorId[] = [];
+    const actorIndices: Map<ActorId, number> = new Map();
+
+    const actorIndex = (actorId: ActorId) => {
+      let index = actorIndices.get(actorId);
+      if (index === undefined) {
+        if (actorIds.length === MAX_ACTORS)
+          throw new Error(`Cannot intern actor ${actorId}: too many actors`);
+        index = actorIds.length;
+        actorIds.push(actorId);
+        actorIndices.set(actorId, index);
+      }
+      return index;
+    };
+
+    const intern = (opId: OpId): InternedOpId => {
+      if (OpId.ctr(opId) >= MAX_CTR)
+        throw new Error(`Cannot intern ${OpId.toString(opId)}: ctr too large`);
+      return OpId.ctr(opId) * MAX_ACTORS + actorIndex(OpId.actor(opId));
+    };
+    // only interns opIds of known actors, for lookups of foreign opIds
+    const find = (opId: OpId): InternedOpId | undefined => {
+      const index = actorIndices.get(OpId.actor(opId));
+      return index === undefined || OpId.ctr(opId) >= MAX_CTR
+        ? undefined
+        : OpId.ctr(opId) * MAX_ACTORS + index;
+    };
+    const ctr = (opId: InternedOpId) => Math.floor(opId / MAX_ACTORS);
+    const actor = (opId: InternedOpId) => actorIds[opId % MAX_ACTORS];
+    const extern = (opId: InternedOpId): OpId => [ctr(opId), actor(opId)];
+
+    return {
+      intern,
+      internString: (opId: StringifiedOpId) => intern(OpId.fromString(opId)),
+      find,
+      extern,
+      ctr,
+      toString: (opId: InternedOpId) => `${ctr(opId)}@${actor(opId)}`,
+      // the same order as `OpId.compare()`
+      compare: (a: InternedOpId, b: InternedOpId): -1 | 0 | 1 => {
+        if (a === b) return 0;
+        const ctrDiff = ctr(a) - ctr(b);
+        if (ctrDiff !== 0) return ctrDiff < 0 ? -1 : 1;
+        return actor(a) < actor(b) ? -1 : 1;
+      },
+    };
+  },
+};
+
+/**
+ * A Lamport clock, which may be shared by several registers, such that their
+ * opIds are totally ordered among each other (see `PicomergeDoc`).
+ */
+export type Clock = ReturnType<typeof Clock.create>;
+export const Clock = {
   create: (actorId: ActorId) => {
     let ctr = 0;
 
@@ -148,113 +494,817 @@ const Clock = {
   },
 };
 
+/**
+ * The user intent behind an op.
+ */
+export type ChangeKind = "set" | "delete" | "undo" | "redo" | "resolve";
+
+/**
+ * Describes the application of an op to the register.
+ */
+export type Change<V> = {
+  /**
+   * The values of the register before and after the op has been applied.
+   */
+  previous: V[];
+  current: V[];
+  /**
+   * The op which caused the change.
+   */
+  op: Op<V>;
+  kind: ChangeKind;
+  /**
+   * Whether the op has been generated by this replica.
+   */
+  local: boolean;
+};
+
+/**
+ * An applied op together with the values of the register as of that op,
+ * that is, the values an op resolves to given its causal past only.
+ */
+export type HistoryEntry<V> = {
+  op: Op<V>;
+  kind: ChangeKind;
+  values: V[];
+};
+
+/**
+ * The outcome of applying a batch of ops.
+ */
+export type BatchReport = {
+  /**
+   * The ops which have been applied, in the order of their application,
+   * including lobby ops which became causally ready due to the batch.
+   */
+  applied: OpId[];
+  /**
+   * The ops of the batch which wait in the lobby for their preds.
+   */
+  deferred: OpId[];
+  /**
+   * The ops of the batch which have already been applied before or which
+   * occur in the batch several times.
+   */
+  duplicates: OpId[];
+  /**
+   * The errors of the invalid ops which have been rejected, under the `skip`
+   * and `quarantine` policies, each carrying the rejected op. These may
+   * include lobby ops which became causally ready due to the batch.
+   */
+  rejected: InvalidOpError[];
+};
+
+/**
+ * A policy to coalesce consecutive local sets (and deletes) into a single
+ * entry of the undo stack, such that a single undo reverts all of them.
+ */
+export type CoalescePolicy = {
+  /**
+   * Two consecutive local sets are coalesced if at most this many
+   * milliseconds have passed between them.
+   */
+  interval: number;
+  /**
+   * The clock source in milliseconds, defaults to `Date.now`.
+   */
+  now?: () => number;
+};
+
+/**
+ * A sibling of the register, that is, one of the values of `get()` together
+ * with the set op which has written it.
+ */
+export type Sibling<V> = {
+  value: V;
+  opId: OpId;
+  actorId: ActorId;
+};
+
+/**
+ * A conflict strategy picks a single value out of the siblings of the
+ * register, which are given in the order of `get()`. It is applied locally
+ * only, that is, it does not generate any ops, and hence replicas may use
+ * different strategies. It returns `undefined` if there is no sibling.
+ */
+export type ConflictStrategy<V> = (
+  siblings: Sibling<V>[],
+  localActorId: ActorId,
+) => V | undefined;
+
+export const ConflictStrategy = {
+  /**
+   * Picks the sibling of the most recent head according to the total order
+   * of opIds, where an undo or redo counts as a write, too.
+   */
+  lastWriterWins: <V>(siblings: Sibling<V>[]): V | undefined =>
+    siblings[0]?.value,
+  /**
+   * Picks the most recent sibling written by the given actor, and falls back
+   * to the last writer if the actor has not written any sibling.
+   */
+  preferActor:
+    <V>(preferredActorId: ActorId): ConflictStrategy<V> =>
+    (siblings) =>
+      (
+        siblings.find(({ actorId }) => actorId === preferredActorId) ??
+        siblings[0]
+      )?.value,
+  /**
+   * Picks the most recent sibling written by the local replica, and falls
+   * back to the last writer if it has not written any sibling.
+   */
+  preferLocal: <V>(
+    siblings: Sibling<V>[],
+    localActorId: ActorId,
+  ): V | undefined =>
+    ConflictStrategy.preferActor<V>(localActorId)(siblings, localActorId),
+  /**
+   * Merges the values of all siblings into a single value, e.g.,
+   * the maximum of numbers or the union of sets. The merge function is only
+   * called if there are at least two siblings.
+   */
+  merge:
+    <V>(mergeValues: (values: V[]) => V): ConflictStrategy<V> =>
+    (siblings) =>
+      siblings.length > 1
+        ? mergeValues(siblings.map(({ value }) => value))
+        : siblings[0]?.value,
+};
+
+/**
+ * How a replica handles invalid incoming ops (see `InvalidOpError`):
+ * - `throw`: throws the error of the first invalid op, after the valid ops
+ *   of the same call have been applied,
+ * - `skip`: drops invalid ops,
+ * - `quarantine`: drops invalid ops but keeps them for inspection
+ *   (see `Picomerge.quarantine()`).
+ * Ops depending on an invalid op are never applied but wait in the lobby.
+ */
+export type InvalidOpPolicy = "throw" | "skip" | "quarantine";
+
+export type PicomergeOptions<V = unknown> = {
+  coalesce?: CoalescePolicy;
+  /**
+   * The strategy of `getResolved()`, defaults to last-writer-wins.
+   */
+  strategy?: ConflictStrategy<V>;
+  /**
+   * Defaults to `throw`.
+   */
+  invalidOpPolicy?: InvalidOpPolicy;
+  /**
+   * Called for every invalid op, regardless of the policy.
+   */
+  onInvalidOp?: (error: InvalidOpError) => void;
+  /**
+   * The Lamport clock of the replica, defaults to a clock of its own.
+   * Its actorId must match the replica's actorId.
+   */
+  clock?: Clock;
+  /**
+   * The user of the replica. If present, the ops are attached to the user
+   * and the undo and redo stacks span the ops of all of the user's devices,
+   * not only the ones of this replica.
+   */
+  userId?: UserId;
+  /**
+   * If enabled, the ops are content-addressed: every local op carries
+   * the hash of its content and the hashes of its preds, and received ops
+   * (even those of the local actor) without a hash or with a hash which
+   * does not match their content or the local hashes of their preds are
+   * rejected with an `IntegrityError`.
+   * All replicas of a register should enable it. Defaults to `false`.
+   * It may be enabled for an existing register by loading a snapshot of it,
+   * whose ops without a hash are accepted. Other replicas with hashing
+   * enabled only accept these ops from a snapshot, too.
+   */
+  hashing?: boolean;
+  /**
+   * The codec of the values, whose encoding is hashed and compared, e.g.,
+   * to detect conflicting duplicates. It should be the value codec of the
+   * codecs the replica's ops are sent with. Defaults to JSON.
+   */
+  valueCodec?: ValueCodec<V>;
+};
+
 const History = {
-  create: <V>(actorId: string, clock: Clock, logger?: (s: string) => void) => {
+  create: <V>(
+    actorId: string,
+    clock: Clock,
+    options: PicomergeOptions<V> = {},
+    logger?: (s: string) => void,
+  ) => {
+    const { coalesce, userId, hashing = false } = options;
+    const encodeValue = options.valueCodec?.encode ?? encodeJson;
+
     // operations that are not yet causally ready wait in the lobby, that is,
     // all unapplied and causally not-yet-ready operations wait until their
     // causal dependencies (transitive predecessors) are applied
-    let lobby: Map<StringifiedOpId, Op<V>> = new Map();
+    const lobby: Map<InternedOpId, Op<V>> = new Map();
+    // the lobby ops indexed by the preds they are waiting for, such that
+    // applying an op only wakes up the ops waiting for it
+    const waiting: Map<InternedOpId, Set<InternedOpId>> = new Map();
     // all _applied_ operations are stored here
-    const appliedOps: Map<StringifiedOpId, Op<V>> = new Map();
+    const appliedOps: Map<InternedOpId, Op<V>> = new Map();
     // for pred generation for new ops, we keep the current set of known heads
-    const heads: Set<StringifiedOpId> = new Set();
+    const heads: Set<InternedOpId> = new Set();
     // for quick lookup of the (global) last op,
     // useful for reverting the last operation from _any_ actor
     let lastOp: Op<V> | null = null;
 
+    // effect-free undo/redo pairs which have been removed from the applied ops
+    // by a compaction, each mapped to the preds of the undo op they are
+    // equivalent to (see `compact()`)
+    const compacted: Map<InternedOpId, InternedOpId[]> = new Map();
+    // the remote actors participating in the register, either registered
+    // explicitly or learned from the ops they send
+    const actors: Set<ActorId> = new Set();
+    // for each remote actor, the opIds it is known to have seen, learned from
+    // the ops it sends (an op's preds are the heads of its actor) and from
+    // explicit acknowledgements; the actor has seen all of their ancestors
+    const actorFrontiers: Map<ActorId, Set<InternedOpId>> = new Map();
+
+    // the cached resolutions of applied ops to terminal ops (see `resolve()`)
+    const resolutions: Map<InternedOpId, Resolution<V>[]> = new Map();
+
+    // all opIds are interned, the preds of ops are interned only once
+    const interner = OpIdInterner.create();
+    const internedPreds: Map<InternedOpId, InternedOpId[]> = new Map();
+
     // local changes of the actor for undo/redo
-    const undoStack: SetOp<V>[] = [];
+    const undoStack: UndoableOp<V>[] = [];
     const redoStack: RestoreOp[] = [];
 
+    // undo groups: while a group is open, only the first terminal op of the
+    // group is pushed to the undo stack, as undoing it restores the state
+    // before the whole group and redoing that undo restores the state after it
+    let groupDepth = 0;
+    let groupHasOp = false;
+    // the time of the last local set which the next local set may be
+    // coalesced with, if a coalesce policy is given
+    let lastSetAt: number | undefined;
+
+    // global changes for global undo/redo, that is, reverting the last
+    // operation from _any_ actor:
+    // the ops which have been reverted by a global undo of this replica
+    const globalUndone: Set<InternedOpId> = new Set();
+    // the ops generated by a global undo or redo of this replica, which are
+    // never reverted by a global undo themselves
+    const globalOps: Set<InternedOpId> = new Set();
+    const globalRedoStack: RestoreOp[] = [];
+
     // generates a shallow copy of the current heads
-    const currentPreds = () => new Set(heads);
+    const currentPreds = () => new Set([...heads].map(interner.toString));
+
+    const idOf = (op: Op<V>) => interner.intern(op.opId);
+    const anchorOf = (op: RestoreOp) => interner.intern(op.anchor);
+    const predsOf = (op: Op<V>): InternedOpId[] => {
+      const opId = idOf(op);
+      let preds = internedPreds.get(opId);
+      if (!preds) {
+        preds = [...op.preds].map(interner.internString);
+        internedPreds.set(opId, preds);
+      }
+      return preds;
+    };
 
     const isLocalOp = (op: Op<V>) => isActorsOp(op, actorId);
-    const _isRemoteOp = (op: Op<V>) => !isLocalOp(op);
+    const isRemoteOp = (op: Op<V>) => !isLocalOp(op);
     const isActorsOp = (op: Op<V>, actorId: ActorId) =>
       OpId.actor(op.opId) === actorId;
+    const isUsersOp = (op: Op<V>) =>
+      userId !== undefined && op.userId === userId;
+    // the opIds of the ops which have been rejected as invalid
+    const rejected: Set<InternedOpId> = new Set();
+
+    // the ops generated by this replica since its creation, which are
+    // consistent by construction; ops of the local actor received from
+    // elsewhere, e.g., from a peer or a snapshot, are validated like
+    // remote ops
+    const generated: WeakSet<Op<V>> = new WeakSet();
+
+    // the hashes of all applied ops carrying one, which are kept for ops
+    // removed by a compaction, too
+    const hashes: Map<InternedOpId, OpHash> = new Map();
+    // the ops of a snapshot which carry no hash, e.g., as they have been
+    // generated before hashing was enabled, which are accepted nonetheless
+    const unhashed: WeakSet<Op<V>> = new WeakSet();
+
+    // attaches the user and, if hashing, the hashes to a new local op
+    const stamp = <O extends Op<V>>(op: O): O => {
+      const stamped = userId !== undefined ? { ...op, userId } : op;
+      const generatedOp = hashing ? hash(stamped) : stamped;
+      generated.add(generatedOp);
+      return generatedOp;
+    };
+
+    const hash = <O extends Op<V>>(op: O): O => {
+      const predHashes: Record<StringifiedOpId, OpHash> = {};
+      op.preds.forEach((pred) => {
+        const predHash = hashes.get(interner.internString(pred));
+        if (predHash !== undefined) predHashes[pred] = predHash;
+      });
+      const hashed = { ...op, predHashes };
+      return { ...hashed, hash: OpHash.of(hashed, encodeValue) };
+    };
 
     const isRedoOp = (op: Op<V>, anchorOp?: Op<V>): op is RestoreOp =>
       op.kind === OpKind.restore &&
-      (anchorOp ?? appliedOps.get(OpId.toString(op.anchor)))?.kind ===
-        OpKind.restore;
+      (anchorOp ?? appliedOps.get(anchorOf(op)))?.kind === OpKind.restore;
     const isUndoOp = (op: Op<V>, anchorOp?: Op<V>): op is RestoreOp =>
       op.kind === OpKind.restore &&
-      (anchorOp ?? appliedOps.get(OpId.toString(op.anchor)))?.kind !==
-        OpKind.restore;
+      (anchorOp ?? appliedOps.get(anchorOf(op)))?.kind !== OpKind.restore;
     const isTerminalOp = (op: Op<V>): op is TerminalOp<V> =>
-      op.kind !== OpKind.restore;
-    const isSetOp = (op: Op<V>): op is SetOp<V> =>
-      op.kind === OpKind.set && op.value !== undefined;
-    const isDeleteOp = (op: Op<V>): op is SetOp<V> =>
-      op.kind === OpKind.set && op.value === undefined;
-
-    const resolveToTerminalOp = (op: RestoreOp): TerminalOp<V> => {
-      // takes at most two iterations to resolve to a terminal op
+      op.kind === OpKind.set || op.kind === OpKind.delete;
+    const isResolveOp = (op: Op<V>): op is ResolveOp =>
+      op.kind === OpKind.resolve;
+    const isSetOp = (op: Op<V>): op is SetOp<V> => op.kind === OpKind.set;
+    const isDeleteOp = (op: Op<V>): op is DeleteOp => op.kind === OpKind.delete;
+
+    // the user intent behind an applied (or causally ready) op
+    const kindOf = (op: Op<V>): ChangeKind => {
+      const anchorOp =
+        op.kind === OpKind.restore ? appliedOps.get(anchorOf(op)) : undefined;
+      if (isRedoOp(op, anchorOp)) return "redo";
+      if (isUndoOp(op, anchorOp)) return "undo";
+      if (isResolveOp(op)) return "resolve";
+      return isSetOp(op) ? "set" : "delete";
+    };
+
+    const resolveToUndoableOp = (op: RestoreOp): UndoableOp<V> => {
+      // takes at most two iterations to resolve to an undoable op
       do {
-        const anchorOp = appliedOps.get(OpId.toString(op.anchor));
-        if (!anchorOp) throw new Error("cannot resolve to terminal op");
+        const anchorOp = appliedOps.get(anchorOf(op));
+        if (!anchorOp) throw new Error("cannot resolve to undoable op");
         if (anchorOp.kind !== OpKind.restore) return anchorOp;
         op = anchorOp;
         // eslint-disable-next-line no-constant-condition
       } while (true);
     };
 
-    const isCausallyReady = (op: Op<V>) =>
-      Array.from(op.preds).every((pred) => appliedOps.has(pred));
+    const isApplied = (opId: InternedOpId) =>
+      appliedOps.has(opId) || compacted.has(opId);
+
+    const isCausallyReady = (op: Op<V>) => predsOf(op).every(isApplied);
+
+    // replaces compacted ops by the preds they are equivalent to
+    const expandPreds = (preds: Iterable<InternedOpId>): InternedOpId[] =>
+      [...preds].flatMap((pred) => {
+        const equivalent = compacted.get(pred);
+        return equivalent ? expandPreds(equivalent) : [pred];
+      });
+
+    // all applied ops which are reachable from the given opIds via their preds,
+    // including the given opIds themselves (unknown opIds are ignored)
+    const ancestors = (opIds: Iterable<InternedOpId>) => {
+      const visited: Set<InternedOpId> = new Set();
+      const stack = expandPreds(opIds);
+      while (stack.length > 0) {
+        const opId = stack.pop()!;
+        if (visited.has(opId)) continue;
+        const op = appliedOps.get(opId);
+        if (!op) continue;
+        visited.add(opId);
+        stack.push(...expandPreds(predsOf(op)));
+      }
+      return visited;
+    };
+
+    // whether the given opId is an ancestor of the op, where only ops with
+    // a greater ctr than the ancestor have to be visited, as the ctrs
+    // decrease along the preds
+    const isAncestor = (ancestor: OpId, op: Op<V>) => {
+      const target = interner.find(ancestor);
+      if (target === undefined || !isApplied(target)) return false;
+      // compacted ops are causally stable and cannot be traversed anymore
+      if (compacted.has(target)) return true;
+      const visited: Set<InternedOpId> = new Set();
+      const stack = expandPreds(predsOf(op));
+      while (stack.length > 0) {
+        const opId = stack.pop()!;
+        if (opId === target) return true;
+        if (visited.has(opId) || interner.ctr(opId) < OpId.ctr(ancestor))
+          continue;
+        visited.add(opId);
+        const pred = appliedOps.get(opId);
+        if (pred) stack.push(...expandPreds(predsOf(pred)));
+      }
+      return false;
+    };
+
+    // checks the hashes of a causally ready op which has not been generated
+    // by this replica, including ops of the local actor: its hash has to match
+    // its content and the hashes it references have to match the local
+    // hashes of its preds, where preds without a local hash, e.g., ops
+    // removed by a compaction before the replica has been loaded, are skipped;
+    // ops of a snapshot without a hash are accepted as they are
+    const integrityViolationOf = (op: Op<V>): IntegrityError | undefined => {
+      const violated = (reason: string) =>
+        new IntegrityError(
+          `Integrity violation of op ${OpId.toString(op.opId)}: ${reason}`,
+          op,
+        );
+      if (op.hash === undefined)
+        return unhashed.has(op)
+          ? undefined
+          : violated("the op carries no hash");
+      if (OpHash.of(op, encodeValue) !== op.hash)
+        return violated("the hash does not match the content");
+      for (const pred of op.preds) {
+        const predHash = hashes.get(interner.internString(pred));
+        if (predHash !== undefined && op.predHashes?.[pred] !== predHash)
+          return violated(
+            `the hash of pred ${pred} differs from the local one`,
+          );
+      }
+    };
+
+    // checks a causally ready op against its causal past, unless it has been
+    // generated by this replica
+    const inconsistencyOf = (op: Op<V>): InvalidOpError | undefined => {
+      if (generated.has(op)) return;
+      if (hashing) {
+        const violation = integrityViolationOf(op);
+        if (violation) return violation;
+      }
+      const inconsistent = (reason: string) =>
+        new InconsistentOpError(
+          `Inconsistent op ${OpId.toString(op.opId)}: ${reason}`,
+          op,
+        );
+      if (op.kind === OpKind.restore && !isAncestor(op.anchor, op))
+        return inconsistent(
+          `anchor ${OpId.toString(op.anchor)} is not an ancestor`,
+        );
+      if (op.kind === OpKind.resolve) {
+        const chosen = interner.find(op.chosen);
+        const chosenOp =
+          chosen !== undefined ? appliedOps.get(chosen) : undefined;
+        if (!chosenOp || !isTerminalOp(chosenOp) || !isAncestor(op.chosen, op))
+          return inconsistent(
+            `chosen ${OpId.toString(op.chosen)} is not a terminal ancestor`,
+          );
+      }
+    };
+
+    // the applied or waiting op with the given opId
+    const opOf = (opId: OpId): Op<V> | undefined => {
+      const internedOpId = interner.find(opId);
+      if (internedOpId === undefined) return;
+      return appliedOps.get(internedOpId) ?? lobby.get(internedOpId);
+    };
+
+    // an applied op as it is sent to other replicas: preds removed by
+    // a compaction are replaced by the preds they are equivalent to, as
+    // replicas which have never seen the removed ops cannot apply it otherwise
+    const exportOp = (op: Op<V>): Op<V> => {
+      const preds = predsOf(op);
+      if (!preds.some((pred) => compacted.has(pred))) return op;
+      return {
+        ...op,
+        preds: new Set(expandPreds(preds).map(interner.toString)),
+      };
+    };
+
+    // all applied ops in the order they have been applied (a causal order)
+    // which are not ancestors of the given remote heads
+    const getOpsSince = (remoteHeads: OpId[]): Op<V>[] => {
+      const known = ancestors(
+        remoteHeads
+          .map(interner.find)
+          .filter((opId): opId is InternedOpId => opId !== undefined),
+      );
+      return [...appliedOps]
+        .filter(([opId, _op]) => !known.has(opId))
+        .map(([_opId, op]) => exportOp(op));
+    };
+
+    // the preds the lobby ops are waiting for which are neither applied
+    // nor in the lobby themselves
+    const missingDeps = (): OpId[] => {
+      const missing: Set<InternedOpId> = new Set();
+      lobby.forEach((op) =>
+        predsOf(op).forEach((pred) => {
+          if (!isApplied(pred) && !lobby.has(pred) && !rejected.has(pred))
+            missing.add(pred);
+        }),
+      );
+      return [...missing].map(interner.extern);
+    };
+
+    // remembers the opId of a rejected op, such that it is not asked for
+    // again; an op with that opId is still applied if it is valid
+    const markRejected = (op: unknown) => {
+      const opId = (op as Partial<Op<V>> | null)?.opId;
+      if (isValidOpId(opId)) rejected.add(interner.intern(opId));
+    };
+
+    const enterLobby = (op: Op<V>) => {
+      const opId = idOf(op);
+      if (lobby.has(opId)) return;
+      lobby.set(opId, op);
+      predsOf(op).forEach((pred) => {
+        if (isApplied(pred)) return;
+        const waitingOps = waiting.get(pred) ?? new Set();
+        waitingOps.add(opId);
+        waiting.set(pred, waitingOps);
+      });
+    };
+
+    // removes the lobby ops which have been waiting for the given op
+    // and are causally ready now from the lobby
+    const wakeUp = (opId: InternedOpId): Op<V>[] => {
+      const waitingOps = waiting.get(opId);
+      if (!waitingOps) return [];
+      waiting.delete(opId);
+      const ready: Op<V>[] = [];
+      waitingOps.forEach((waitingOpId) => {
+        const op = lobby.get(waitingOpId);
+        // ops waiting for several preds stay in the lobby until the last one
+        if (!op || !isCausallyReady(op)) return;
+        lobby.delete(waitingOpId);
+        ready.push(op);
+      });
+      return ready;
+    };
+
+    // resolves an applied op to the terminal ops it produces, the result is
+    // cached as it never changes once the op has been applied, unless
+    // a compaction shortens it; hence, resolving a new op only takes
+    // the cached resolutions of its anchor's preds into account
+    const resolve = (opId: InternedOpId): Resolution<V>[] => {
+      // an explicit stack instead of recursion, as chains of restore ops may
+      // be long if the cache is cold, e.g., after a compaction
+      const stack = [opId];
+      while (stack.length > 0) {
+        const nextOpId = stack[stack.length - 1];
+        if (resolutions.has(nextOpId)) {
+          stack.pop();
+          continue;
+        }
 
-    const processCausallyReady = (register: MvRegister<V>) => {
-      const [ready, notReady] = partition(lobby.values(), isCausallyReady);
-      lobby = new Map(notReady.map((op) => [OpId.toString(op.opId), op]));
-      ready.forEach((op) => add(op, register, true));
+        const nextOp = appliedOps.get(nextOpId)!;
+        switch (nextOp.kind) {
+          case OpKind.set:
+          case OpKind.delete:
+            resolutions.set(nextOpId, [
+              { terminalOp: nextOp, trace: Trace.of(nextOpId), depth: 1 },
+            ]);
+            stack.pop();
+            continue;
+          // restore ops are special in that they are not immediately producing
+          // terminal ops, but instead they produce the terminal ops of their
+          // anchor's predecessors
+          case OpKind.restore: {
+            const anchorOp = appliedOps.get(anchorOf(nextOp));
+            if (!anchorOp)
+              throw new Error(
+                "Impossible: Anchor operation not found in applied ops, causally ready invariant violated",
+              );
+            // compacted preds are skipped as they are effect-free
+            const preds = expandPreds(predsOf(anchorOp));
+            const unresolved = preds.filter((pred) => !resolutions.has(pred));
+            if (unresolved.length > 0) {
+              stack.push(...unresolved);
+              continue;
+            }
+            resolutions.set(
+              nextOpId,
+              preds.flatMap((pred) =>
+                resolutions.get(pred)!.map(({ terminalOp, trace, depth }) => ({
+                  terminalOp,
+                  trace: Trace.prepend(nextOpId, trace),
+                  depth: depth + 1,
+                })),
+              ),
+            );
+            stack.pop();
+            continue;
+          }
+          // resolve ops produce the terminal op they have chosen
+          case OpKind.resolve: {
+            const chosen = interner.intern(nextOp.chosen);
+            if (!resolutions.has(chosen)) {
+              stack.push(chosen);
+              continue;
+            }
+            resolutions.set(
+              nextOpId,
+              resolutions.get(chosen)!.map(({ terminalOp, trace, depth }) => ({
+                terminalOp,
+                trace: Trace.prepend(nextOpId, trace),
+                depth: depth + 1,
+              })),
+            );
+            stack.pop();
+            continue;
+          }
+        }
+      }
+      return resolutions.get(opId)!;
+    };
+
+    // this fn ensures that the terminal heads are:
+    // 1. only terminal ops (generated either from a set() or delete())
+    // 2. sorted by their opIdTrace
+    const resolveHeads = (
+      ofHeads: Iterable<InternedOpId> = heads,
+    ): [TerminalOp<V>, ResolutionMetadata][] =>
+      // 1. resolve the heads to terminal ops
+      [...ofHeads]
+        .flatMap(resolve)
+        // 2. sort the terminal ops by their op id trace,
+        // b - a because we want the highest opId first
+        .sort(({ trace: a }, { trace: b }) => Trace.compare(b, a, interner))
+        .map(({ terminalOp, trace, depth }) => [
+          terminalOp,
+          Trace.toMetadata(trace, depth, interner),
+        ]);
+
+    const valuesOf = (terminalHeads: [TerminalOp<V>, ResolutionMetadata][]) =>
+      terminalHeads.reduce((acc: V[], [head, _metadata]) => {
+        // only set ops produce a value, delete ops produce none
+        if (head.kind === OpKind.set) acc.push(head.value);
+        return acc;
+      }, []);
+
+    const updateRegister = (register: MvRegister<V>) => {
+      const terminalHeads = resolveHeads();
+
+      register.values = valuesOf(terminalHeads);
+
+      // just for testing purposes
+      register.terminalHeads = terminalHeads;
+    };
+
+    // The register as of the given frontier: as the resolution of an op only
+    // depends on its ancestors, the ops which are ancestors of other given
+    // ops are dropped and the remaining ones are resolved like heads.
+    const getAt = (frontier: OpId[]): MvRegister<V> => {
+      const opIds = expandPreds(
+        frontier.map((opId) => {
+          const interned = interner.find(opId);
+          if (interned === undefined || !isApplied(interned))
+            throw new Error(
+              `Cannot evaluate the register at ${OpId.toString(
+                opId,
+              )}: not an applied op`,
+            );
+          return interned;
+        }),
+      );
+      const covered = ancestors(
+        opIds.flatMap((opId) => expandPreds(predsOf(appliedOps.get(opId)!))),
+      );
+      const terminalHeads = resolveHeads(
+        new Set(opIds.filter((opId) => !covered.has(opId))),
+      );
+      return { values: valuesOf(terminalHeads), terminalHeads };
     };
 
+    // all applied ops in the order they have been applied (a causal order),
+    // each with the values of the register as of that op
+    const historyLog = (): HistoryEntry<V>[] =>
+      [...appliedOps].map(([opId, op]) => ({
+        op,
+        kind: kindOf(op),
+        values: valuesOf(resolveHeads([opId])),
+      }));
+
     const add = (
       op: Op<V>,
       register: MvRegister<V>,
-      skipCausallyReadyCheck = false,
-    ) => {
-      const { opId } = op;
-      const stringifiedOpId = OpId.toString(opId);
-
+      reject: (error: InvalidOpError) => void,
+    ): Change<V>[] => {
       // ignore already applied ops
-      if (appliedOps.has(stringifiedOpId)) return;
+      if (isApplied(idOf(op))) return [];
 
       // delay ops which are not yet causally ready and put them into the lobby
-      if (!skipCausallyReadyCheck && !isCausallyReady(op)) {
-        if (!lobby.has(stringifiedOpId)) lobby.set(stringifiedOpId, op);
-        return;
+      if (!isCausallyReady(op)) {
+        enterLobby(op);
+        return [];
       }
 
-      const anchorOp =
-        op.kind === OpKind.restore
-          ? appliedOps.get(OpId.toString(op.anchor))
-          : undefined;
-      const isRedo = isRedoOp(op, anchorOp);
-      const isUndo = isUndoOp(op, anchorOp);
-      const _isTerminal = isTerminalOp(op);
-      const isSet = isSetOp(op);
-      const isDelete = isDeleteOp(op);
+      const changes: Change<V>[] = [];
+      insertWithWokenUp(op, reject, (readyOp) => {
+        const kind = insert(readyOp);
+        // apply the effect of the op (or rather the effect of the current heads)
+        const previous = register.values;
+        updateRegister(register);
+        changes.push({
+          previous,
+          current: register.values,
+          op: readyOp,
+          kind,
+          local: isLocalOp(readyOp),
+        });
+      });
+      return changes;
+    };
+
+    // inserts many ops at once, which are topologically sorted first, such that
+    // the register only has to be updated once at the end
+    const addBatch = (
+      ops: Op<V>[],
+      register: MvRegister<V>,
+      reject: (error: InvalidOpError) => void,
+    ): { report: Omit<BatchReport, "rejected">; change?: Change<V> } => {
+      const received: Map<InternedOpId, Op<V>> = new Map();
+      const applied: OpId[] = [];
+      const duplicates: OpId[] = [];
+      let last: [Op<V>, ChangeKind] | undefined;
+
+      // the Lamport clock renders the total order of opIds a causal order
+      [...ops]
+        .sort((a, b) => OpId.compare(a.opId, b.opId))
+        .forEach((op) => {
+          const opId = idOf(op);
+          if (isApplied(opId) || received.has(opId)) {
+            duplicates.push(op.opId);
+            return;
+          }
+          received.set(opId, op);
+          if (!isCausallyReady(op)) {
+            enterLobby(op);
+            return;
+          }
+          insertWithWokenUp(op, reject, (readyOp) => {
+            last = [readyOp, insert(readyOp)];
+            applied.push(readyOp.opId);
+          });
+        });
+
+      const report = {
+        applied,
+        deferred: [...received]
+          .filter(([opId, _op]) => lobby.has(opId))
+          .map(([_opId, op]) => op.opId),
+        duplicates,
+      };
+      if (!last) return { report };
+      const [op, kind] = last;
+      const previous = register.values;
+      updateRegister(register);
+      return {
+        report,
+        change: {
+          previous,
+          current: register.values,
+          op,
+          kind,
+          local: isLocalOp(op),
+        },
+      };
+    };
+
+    // after inserting an op, other ops might be causally ready; they are
+    // processed iteratively, as a long history received in reverse order
+    // is released from the lobby all at once. Inconsistent ops are rejected,
+    // hence the ops waiting for them stay in the lobby.
+    const insertWithWokenUp = (
+      op: Op<V>,
+      reject: (error: InvalidOpError) => void,
+      insert: (op: Op<V>) => void,
+    ) => {
+      const ready = [op];
+      for (let i = 0; i < ready.length; i++) {
+        const error = inconsistencyOf(ready[i]);
+        if (error) {
+          reject(error);
+          continue;
+        }
+        insert(ready[i]);
+        ready.push(...wakeUp(idOf(ready[i])));
+      }
+    };
+
+    // inserts a causally ready op into the history without updating the
+    // register, returns the kind of the op
+    const insert = (op: Op<V>): ChangeKind => {
+      const opId = idOf(op);
+
+      const kind = kindOf(op);
 
       if (logger) {
-        const opKind = isRedo
-          ? `redo (restore op)`
-          : isUndo
-          ? `undo (restore op)`
-          : isSet
-          ? `set (set op)`
-          : `delete (set op)`;
+        const opKind = `${kind} (${
+          kind === "undo" || kind === "redo" ? "restore" : kind
+        } op)`;
 
         const preds = `[${[...op.preds].join(", ")}]`;
 
-        const payload = isSet
+        const payload = isSetOp(op)
           ? ` and value '${JSON.stringify(op.value)}'`
-          : isDelete
+          : isDeleteOp(op)
           ? ``
+          : isResolveOp(op)
+          ? ` and chosen '${OpId.toString(op.chosen)}'`
           : ` and anchor '${OpId.toString(op.anchor)}'`;
 
         logger(
-          `Processing ${stringifiedOpId} ${opKind} with preds ${preds}${payload}`,
+          `Processing ${OpId.toString(
+            op.opId,
+          )} ${opKind} with preds ${preds}${payload}`,
         );
       }
 
@@ -263,232 +1313,991 @@ const History = {
       // 2. but the effect of the op itself has not yet been applied
 
       const _advanceHeads = (() => {
-        const preds = [...op.preds.values()];
+        // compacted preds have been replaced by their equivalent preds
+        const preds = expandPreds(predsOf(op));
         preds.forEach((pred) => heads.delete(pred));
-        heads.add(stringifiedOpId);
+        heads.add(opId);
       })();
       const _updateLastOp = (() => {
         if (!lastOp) lastOp = op;
-        else if (OpId.compare(opId, lastOp.opId) > 0) lastOp = op;
+        else if (OpId.compare(op.opId, lastOp.opId) > 0) lastOp = op;
       })();
-
-      // this fn ensures that the terminal heads are:
-      // 1. either a only set ops (generated either from a set() or delete())
-      // 2. sorted by their opIdTrace
-      const terminalHeads = (() => {
-        const resolveToTerminalOp = (
-          queue: [StringifiedOpId, ResolutionMetadata][],
-        ): [TerminalOp<V>, ResolutionMetadata][] => {
-          const result: [TerminalOp<V>, ResolutionMetadata][] = [];
-          while (queue.length > 0) {
-            const [nextOpId, metadata] = queue.shift()!;
-
-            const newMetadata: ResolutionMetadata = {
-              opIdTrace: [...metadata.opIdTrace, nextOpId],
-              resolutionDepth: metadata.resolutionDepth + 1,
-            };
-
-            // in case the op is not yet known it must be the op that is
-            // currently processed
-            const nextOp = appliedOps.get(nextOpId) ?? op;
-            switch (nextOp.kind) {
-              case OpKind.set:
-                result.push([nextOp, newMetadata]);
-                continue;
-              // restore ops are special in that they are not immediately producing
-              // terminal heads, but instead they are pushing their predecessors
-              // onto the queue
-              case OpKind.restore: {
-                const _restoreActor = OpId.actor(opId);
-                const anchorOp = appliedOps.get(OpId.toString(nextOp.anchor));
-                if (!anchorOp)
-                  throw new Error(
-                    "Impossible: Anchor operation not found in applied ops, causally ready invariant violated",
-                  );
-                queue.push(
-                  ...[...anchorOp.preds].map(
-                    (pred) =>
-                      [pred, newMetadata] as [
-                        StringifiedOpId,
-                        ResolutionMetadata,
-                      ],
-                  ),
-                );
-                continue;
-              }
-            }
-          }
-          return result;
-        };
-
-        const terminalHeads = // 1. prepare the heads for the resolution
-          (
-            [...heads].map((head) => [
-              [head, { opIdTrace: [], resolutionDepth: 0 }],
-            ]) as [[StringifiedOpId, ResolutionMetadata]][]
-          )
-            // 2. resolve the heads to terminal ops
-            .flatMap(resolveToTerminalOp)
-            // 3. sort the terminal ops by their op id trace
-            .sort(
-              (
-                [_aOp, { opIdTrace: aOpIdTrace }],
-                [_bOp, { opIdTrace: bOpIdTrace }],
-              ) => {
-                for (const [a, b] of zip(aOpIdTrace, bOpIdTrace)) {
-                  const comparison = OpId.compare(
-                    // b - a because we want the highest opId first
-                    OpId.fromString(b),
-                    OpId.fromString(a),
-                  );
-                  if (comparison !== 0) return comparison;
-                }
-                throw new Error(
-                  "Impossible: Each path from a head to a terminal op must be unique",
-                );
-              },
-            );
-
-        return terminalHeads;
+      const _advanceActorFrontier = (() => {
+        if (isRemoteOp(op)) acknowledge(OpId.actor(op.opId), [opId]);
       })();
 
-      // apply the effect of the op (or rather the effect of the current heads)
-      register.values = terminalHeads.reduce((acc: V[], [head, _metadata]) => {
-        // only set ops with a value produce a value
-        if (head.value !== undefined) acc.push(head.value);
-        return acc;
-      }, []);
-
-      // just for testing purposes
-      register.terminalHeads = terminalHeads;
-
       // after applying the op we put it into the applied ops set
-      appliedOps.set(stringifiedOpId, op);
+      appliedOps.set(opId, op);
+      if (op.hash !== undefined) hashes.set(opId, op.hash);
+      // the ops of the user's other devices belong to the user's undo history
+      if (isRemoteOp(op) && isUsersOp(op)) replay(op);
       // after applying the op we advance the clock
-      clock.sync(OpId.ctr(opId));
-      // after applying the op, other ops might be causally ready
-      processCausallyReady(register);
+      clock.sync(OpId.ctr(op.opId));
+      return kind;
     };
 
-    const set = (value?: V): SetOp<V> => {
-      const op: SetOp<V> = {
+    // the preds may be given explicitly to write several concurrent siblings
+    const set = (value: V, preds = currentPreds()): SetOp<V> => {
+      const op: SetOp<V> = stamp({
         opId: clock.tick(),
         kind: OpKind.set,
-        preds: currentPreds(),
+        preds,
         value,
-      };
-      // we push the op to the undo stack, to allow it to be undone later
-      undoStack.push(op);
+      });
+      pushUndoableOp(op);
+      return op;
+    };
+
+    const delete_ = (): DeleteOp => {
+      const op: DeleteOp = stamp({
+        opId: clock.tick(),
+        kind: OpKind.delete,
+        preds: currentPreds(),
+      });
+      pushUndoableOp(op);
+      return op;
+    };
+
+    // Conflict resolution: picks one of the terminal heads, which becomes
+    // the only terminal head, while the other siblings remain in the history.
+    // If there is no conflict, there is nothing to resolve.
+    const resolveConflict = (
+      isChosen: (head: TerminalOp<V>) => boolean,
+      register: MvRegister<V>,
+    ): ResolveOp | undefined => {
+      if (register.terminalHeads.length < 2) return;
+      const chosen = register.terminalHeads.find(([head, _metadata]) =>
+        isChosen(head),
+      );
+      if (!chosen)
+        throw new Error(
+          "Cannot resolve the conflict: the chosen sibling is not a terminal head",
+        );
+      const op: ResolveOp = stamp({
+        opId: clock.tick(),
+        kind: OpKind.resolve,
+        preds: currentPreds(),
+        chosen: chosen[0].opId,
+      });
+      pushUndoableOp(op);
+      return op;
+    };
+
+    const pushUndoableOp = (op: UndoableOp<V>) => {
+      // we push the op to the undo stack, to allow it to be undone later,
+      // unless it belongs to the entry of the current group or is coalesced
+      // with the previous entry
+      const startsEntry = groupDepth > 0 ? !groupHasOp : !coalesces();
+      if (startsEntry) undoStack.push(op);
+      if (groupDepth > 0) groupHasOp = true;
       // if we have a new local terminal op, we clear the redo stack,
       // losing the ability to redo (as most mainstream software does it)
       redoStack.length = 0;
-      return op;
+      globalRedoStack.length = 0;
+    };
+
+    const coalesces = (): boolean => {
+      if (!coalesce) return false;
+      const now = (coalesce.now ?? Date.now)();
+      const coalesces =
+        lastSetAt !== undefined && now - lastSetAt <= coalesce.interval;
+      lastSetAt = now;
+      return coalesces;
+    };
+
+    // the next local set starts a new undo entry, regardless of the
+    // coalesce policy
+    const boundary = () => {
+      lastSetAt = undefined;
+    };
+
+    const beginGroup = () => {
+      // nested groups are merged into the outermost group
+      if (groupDepth === 0) groupHasOp = false;
+      groupDepth++;
+    };
+
+    const endGroup = () => {
+      if (groupDepth === 0) throw new Error("There is no group to end");
+      groupDepth--;
+      // a group is an undo entry of its own
+      if (groupDepth === 0) boundary();
+    };
+
+    const assertNoGroup = () => {
+      if (groupDepth > 0)
+        throw new Error("Cannot undo or redo while a group is open");
     };
 
     const undo = (): RestoreOp | undefined => {
+      assertNoGroup();
+      boundary();
       if (undoStack.length === 0) return;
       const anchor = undoStack.pop()!;
-      const op: RestoreOp = {
+      const op: RestoreOp = stamp({
         opId: clock.tick(),
         kind: OpKind.restore,
         preds: currentPreds(),
         anchor: anchor.opId,
-      };
+      });
       // we push the op to the redo stack, to allow it to be redone later
       redoStack.push(op);
       return op;
     };
 
     const redo = (): RestoreOp | undefined => {
+      assertNoGroup();
+      boundary();
       if (redoStack.length === 0) return;
       const anchor = redoStack.pop()!;
-      const op: RestoreOp = {
+      const op: RestoreOp = stamp({
         opId: clock.tick(),
         kind: OpKind.restore,
         preds: currentPreds(),
         anchor: anchor.opId,
-      };
-      const terminalOp = resolveToTerminalOp(op);
-      // we push the terminal op to the undo stack, to allow it to be undone later
-      // for another time
-      undoStack.push(terminalOp);
+      });
+      const undoableOp = resolveToUndoableOp(op);
+      // we push the undoable op to the undo stack, to allow it to be undone
+      // later for another time
+      undoStack.push(undoableOp);
       return op;
     };
 
-    return {
-      add: (op: Op<V>, register: MvRegister<V>) => add(op, register, false),
-      set,
-      undo,
-      redo,
-      undoStack: () => [...undoStack],
-      redoStack: () => [...redoStack],
+    // Selective undo: reverts the given terminal op by restoring the state
+    // before it, like an undo with an arbitrary anchor. Hence, it is pushed
+    // to the redo stack, allowing the revert to be redone.
+    const revert = (
+      target: OpId,
+      register: MvRegister<V>,
+    ): RestoreOp | undefined => {
+      const targetId = interner.find(target);
+      const anchor =
+        targetId !== undefined ? appliedOps.get(targetId) : undefined;
+      if (!anchor || !isTerminalOp(anchor))
+        throw new Error(
+          `Cannot revert ${OpId.toString(target)}: not an applied terminal op`,
+        );
+      // an op which has been overwritten by later ops has no visible effect
+      // anymore, hence there is nothing to revert
+      if (!register.terminalHeads.some(([head, _metadata]) => head === anchor))
+        return;
+      boundary();
+      const op: RestoreOp = stamp({
+        opId: clock.tick(),
+        kind: OpKind.restore,
+        preds: currentPreds(),
+        anchor: anchor.opId,
+      });
+      // a reverted op cannot be undone anymore
+      const index = undoStack.indexOf(anchor);
+      if (index !== -1) undoStack.splice(index, 1);
+      // we push the op to the redo stack, to allow it to be redone later
+      redoStack.push(op);
+      return op;
     };
-  },
-};
 
-export type Picomerge<V> = ReturnType<typeof Picomerge.create<V>>;
-export const Picomerge = {
-  create: <V>(actorId: string) => {
-    // the maximum operation counter seen so far expressed in a clock
-    const clock = Clock.create(actorId);
+    // Replays an op, which has been generated elsewhere, on the undo and redo
+    // stacks as if it had been generated locally. Restore ops whose anchor is
+    // not on the stacks are ignored. Concurrent undos of the same entry, e.g.,
+    // from two devices of the same user, are merged into a single entry: the
+    // first one is kept on the redo stack and redoing either of them redoes
+    // that entry.
+    const replay = (op: Op<V>) => {
+      if (op.kind !== OpKind.restore) {
+        undoStack.push(op);
+        redoStack.length = 0;
+        return;
+      }
+      const anchor = appliedOps.get(anchorOf(op));
+      if (!anchor) return;
+      if (isRedoOp(op, anchor)) {
+        const undoneId = anchorOf(anchor as RestoreOp);
+        const index = redoStack.findIndex(
+          (undoOp) => undoOp === anchor || anchorOf(undoOp) === undoneId,
+        );
+        if (index === -1) return;
+        redoStack.splice(index, 1);
+        undoStack.push(resolveToUndoableOp(op));
+      } else {
+        // an undo pops the top of the undo stack, whereas a revert may
+        // remove an entry below the top
+        const index = undoStack.indexOf(anchor as UndoableOp<V>);
+        if (index === -1) return;
+        undoStack.splice(index, 1);
+        redoStack.push(op);
+      }
+    };
 
-    const _logger = (string: string) => {
-      console.log(`[Actor '${actorId}'] ${string}`);
+    // Rebuilds the undo and redo stacks by replaying the given actor's ops
+    // in the order of their application, e.g., after a replica has received
+    // its own earlier ops back from a peer. Groups and coalesced sets are not
+    // recorded in the ops, hence each of their ops becomes an entry of its own.
+    const rebuildStacks = (ofActorId: ActorId) => {
+      assertNoGroup();
+      boundary();
+      undoStack.length = 0;
+      redoStack.length = 0;
+      appliedOps.forEach((op, opId) => {
+        // global undos and redos do not affect the local stacks
+        if (!isActorsOp(op, ofActorId) || globalOps.has(opId)) return;
+        replay(op);
+      });
     };
 
-    // the history of operations of the register
-    const history = History.create<V>(actorId, clock);
-    // the register with its current values
-    const register: MvRegister<V> = { values: [], terminalHeads: [] };
+    // the most recent op (according to the total order of opIds) which has
+    // neither been reverted by a global undo nor generated by one
+    const lastGloballyUndoableOp = (): Op<V> | undefined => {
+      const isUndoable = (op: Op<V>) =>
+        !globalUndone.has(idOf(op)) && !globalOps.has(idOf(op));
+      if (lastOp && isUndoable(lastOp)) return lastOp;
+      return [...appliedOps.values()]
+        .filter(isUndoable)
+        .reduce<Op<V> | undefined>(
+          (last, op) =>
+            !last || OpId.compare(op.opId, last.opId) > 0 ? op : last,
+          undefined,
+        );
+    };
+
+    const globalUndo = (): RestoreOp | undefined => {
+      assertNoGroup();
+      boundary();
+      const anchor = lastGloballyUndoableOp();
+      if (!anchor) return;
+      const op: RestoreOp = stamp({
+        opId: clock.tick(),
+        kind: OpKind.restore,
+        preds: currentPreds(),
+        anchor: anchor.opId,
+      });
+      globalUndone.add(idOf(anchor));
+      globalOps.add(idOf(op));
+      // we push the op to the global redo stack, to allow it to be redone later
+      globalRedoStack.push(op);
+      return op;
+    };
 
-    const apply = (ops: (Op<V> | undefined)[]) =>
-      ops.forEach((op) => {
-        if (op === undefined) return;
-        history.add(op, register);
+    const globalRedo = (): RestoreOp | undefined => {
+      assertNoGroup();
+      boundary();
+      if (globalRedoStack.length === 0) return;
+      const anchor = globalRedoStack.pop()!;
+      const op: RestoreOp = stamp({
+        opId: clock.tick(),
+        kind: OpKind.restore,
+        preds: currentPreds(),
+        anchor: anchor.opId,
       });
+      // the op reverted by the global undo may be undone globally again
+      globalUndone.delete(anchorOf(anchor));
+      globalOps.add(idOf(op));
+      return op;
+    };
 
-    const get = (): V[] => register.values;
+    const registerActors = (actorIds: Iterable<ActorId>) => {
+      for (const remoteActorId of actorIds)
+        if (remoteActorId !== actorId) actors.add(remoteActorId);
+    };
 
-    const terminalHeads = (): [TerminalOp<V>, ResolutionMetadata][] =>
-      register.terminalHeads;
+    // records that the remote actor has seen the given opIds (and therefore
+    // all of their ancestors), even if they are not yet applied locally
+    const acknowledge = (
+      remoteActorId: ActorId,
+      opIds: Iterable<InternedOpId>,
+    ) => {
+      if (remoteActorId === actorId) return;
+      registerActors([remoteActorId]);
+      const frontier = actorFrontiers.get(remoteActorId) ?? new Set();
+      for (const opId of opIds) frontier.add(opId);
+      actorFrontiers.set(remoteActorId, frontier);
+    };
 
-    const set = (value: V): SetOp<V> => {
-      const setOp = history.set(value);
-      apply([setOp]);
-      return setOp;
+    // the ops which the remote actor has seen; as a side effect, its frontier
+    // is pruned to the opIds which are not ancestors of other opIds of it
+    const seenBy = (remoteActorId: ActorId): Set<InternedOpId> => {
+      const frontier = actorFrontiers.get(remoteActorId);
+      if (!frontier) return new Set();
+      const covered = ancestors(
+        [...frontier].flatMap((opId) => {
+          const op = appliedOps.get(opId);
+          return op ? predsOf(op) : [];
+        }),
+      );
+      covered.forEach((opId) => frontier.delete(opId));
+      return ancestors(frontier);
     };
 
-    const delete_ = (): SetOp<V> | undefined => {
-      // safeguard to protect from generating a delete operation locally
-      // when the register is already empty.
-      if (register.values.length === 0) return;
-      const deleteOp = history.set();
-      apply([deleteOp]);
-      return deleteOp;
+    // the ops which all known actors have seen, that is, the intersection of
+    // the ops seen by the remote actors (the local actor has seen all ops)
+    const causallyStableOps = (): Set<InternedOpId> =>
+      [...actors].reduce((stable, remoteActorId) => {
+        const seen = seenBy(remoteActorId);
+        return new Set([...stable].filter((opId) => seen.has(opId)));
+      }, new Set(appliedOps.keys()));
+
+    // the heads of the causally stable ops
+    const stableFrontier = (): OpId[] => {
+      const stable = causallyStableOps();
+      const covered: Set<InternedOpId> = new Set();
+      stable.forEach((opId) =>
+        expandPreds(predsOf(appliedOps.get(opId)!)).forEach((pred) =>
+          covered.add(pred),
+        ),
+      );
+      return [...stable]
+        .filter((opId) => !covered.has(opId))
+        .map(interner.extern);
     };
 
-    const undo = (): RestoreOp | undefined => {
-      const undoOp = history.undo();
-      apply([undoOp]);
-      return undoOp;
+    // An undo op immediately followed by a redo op of that undo is effect-free:
+    // the state after the redo equals the state before the undo.
+    // Once a successor of the redo op is causally stable, no actor can produce
+    // new ops referencing the pair anymore, hence the pair can be removed and
+    // references to the redo op are replaced by the preds of the undo op.
+    // To keep the order of the terminal heads identical, the pair is only
+    // removed if this replacement happens at the same position for all paths,
+    // that is, the pair is part of a linear segment of the operation history.
+    const compact = (register: MvRegister<V>): OpId[] => {
+      // the preds of content-addressed ops cannot be replaced
+      if (hashing) return [];
+      const stable = causallyStableOps();
+      const successors: Map<InternedOpId, Op<V>[]> = new Map();
+      const anchoredBy: Map<InternedOpId, number> = new Map();
+      appliedOps.forEach((op) => {
+        expandPreds(predsOf(op)).forEach((pred) =>
+          successors.set(pred, [...(successors.get(pred) ?? []), op]),
+        );
+        if (op.kind !== OpKind.restore) return;
+        const anchor = anchorOf(op);
+        anchoredBy.set(anchor, (anchoredBy.get(anchor) ?? 0) + 1);
+      });
+
+      const removed: InternedOpId[] = [];
+      // the applied ops are iterated in a causal order, hence earlier pairs
+      // are removed first which may render later pairs removable, too
+      appliedOps.forEach((redoOp, redoOpId) => {
+        if (!isRedoOp(redoOp)) return;
+        const undoOpId = anchorOf(redoOp);
+        const undoOp = appliedOps.get(undoOpId);
+        const redoSuccessors = successors.get(redoOpId) ?? [];
+        const redoPreds = predsOf(redoOp);
+        const isRemovable =
+          undoOp !== undefined &&
+          isUndoOp(undoOp) &&
+          redoPreds.length === 1 &&
+          redoPreds[0] === undoOpId &&
+          successors.get(undoOpId)?.length === 1 &&
+          anchoredBy.get(undoOpId) === 1 &&
+          !anchoredBy.has(redoOpId) &&
+          !redoStack.includes(undoOp) &&
+          !globalRedoStack.includes(undoOp) &&
+          !heads.has(redoOpId) &&
+          redoSuccessors.every((op) => predsOf(op).length === 1) &&
+          redoSuccessors.some((op) => stable.has(idOf(op)));
+        if (!isRemovable) return;
+
+        const equivalent = expandPreds(predsOf(undoOp));
+        compacted.set(undoOpId, equivalent);
+        compacted.set(redoOpId, equivalent);
+        appliedOps.delete(undoOpId);
+        appliedOps.delete(redoOpId);
+        internedPreds.delete(undoOpId);
+        internedPreds.delete(redoOpId);
+        removed.push(undoOpId, redoOpId);
+      });
+
+      if (removed.length > 0) {
+        // the resolutions through the removed pairs shrink
+        resolutions.clear();
+        updateRegister(register);
+      }
+      return removed.map(interner.extern);
     };
 
-    const redo = (): RestoreOp | undefined => {
-      const redoOp = history.redo();
-      apply([redoOp]);
-      return redoOp;
+    const save = (): Omit<Snapshot<V>, "actorId"> => ({
+      clock: clock.current(),
+      ops: [...appliedOps.values()],
+      lobby: [...lobby.values()],
+      compacted: [...compacted].map(([opId, equivalent]) => [
+        interner.extern(opId),
+        equivalent.map(interner.extern),
+      ]),
+      actors: [...actors].map((remoteActorId) => [
+        remoteActorId,
+        [...(actorFrontiers.get(remoteActorId) ?? [])].map(interner.extern),
+      ]),
+      undoStack: undoStack.map((op) => op.opId),
+      redoStack: redoStack.map((op) => op.opId),
+      global: {
+        undone: [...globalUndone].map(interner.extern),
+        ops: [...globalOps].map(interner.extern),
+        redoStack: globalRedoStack.map((op) => op.opId),
+      },
+    });
+
+    const load = (
+      snapshot: Omit<Snapshot<V>, "actorId">,
+      register: MvRegister<V>,
+    ) => {
+      snapshot.compacted.forEach(([opId, equivalent]) =>
+        compacted.set(interner.intern(opId), equivalent.map(interner.intern)),
+      );
+      snapshot.actors.forEach(([remoteActorId, frontier]) => {
+        registerActors([remoteActorId]);
+        if (frontier.length > 0)
+          acknowledge(remoteActorId, frontier.map(interner.intern));
+      });
+      // the ops are stored in a causal order, hence replaying them applies
+      // all of them immediately, whereas the lobby ops are put into the lobby
+      // again
+      const ops = [...snapshot.ops, ...snapshot.lobby];
+      ops
+        .filter((op) => op.hash === undefined)
+        .forEach((op) => unhashed.add(op));
+      addBatch(ops, register, (error) => {
+        throw error;
+      });
+      // the ops of the user's other devices have been replayed on the stacks
+      // while adding them, but the saved stacks take precedence
+      undoStack.length = 0;
+      redoStack.length = 0;
+      const lookup = (opId: OpId) => {
+        const op = appliedOps.get(interner.intern(opId));
+        if (!op)
+          throw new Error(
+            `Invalid snapshot: stack references unknown op ${OpId.toString(
+              opId,
+            )}`,
+          );
+        return op;
+      };
+      undoStack.push(
+        ...snapshot.undoStack.map((opId) => lookup(opId) as UndoableOp<V>),
+      );
+      redoStack.push(
+        ...snapshot.redoStack.map((opId) => lookup(opId) as RestoreOp),
+      );
+      snapshot.global.undone.forEach((opId) =>
+        globalUndone.add(interner.intern(opId)),
+      );
+      snapshot.global.ops.forEach((opId) =>
+        globalOps.add(interner.intern(opId)),
+      );
+      globalRedoStack.push(
+        ...snapshot.global.redoStack.map((opId) => lookup(opId) as RestoreOp),
+      );
+      clock.sync(snapshot.clock);
     };
 
     return {
-      apply,
-      get,
+      add,
+      addBatch,
       set,
       delete: delete_,
+      resolveConflict,
       undo,
       redo,
-      terminalHeads,
-      undoStack: () => history.undoStack(),
-      redoStack: () => history.redoStack(),
+      beginGroup,
+      endGroup,
+      boundary,
+      undoStack: () => [...undoStack],
+      redoStack: () => [...redoStack],
+      revert,
+      rebuildStacks,
+      getAt,
+      historyLog,
+      globalUndo,
+      globalRedo,
+      globalRedoStack: () => [...globalRedoStack],
+      save,
+      load,
+      heads: () => [...heads].map(interner.extern),
+      // the heads with their hashes ordered by their opIds, such that they
+      // are comparable between replicas
+      headHashes: (): [OpId, OpHash | null][] =>
+        [...heads]
+          .sort(interner.compare)
+          .map((head) => [interner.extern(head), hashes.get(head) ?? null]),
+      has: (opId: OpId) => {
+        const internedOpId = interner.find(opId);
+        return internedOpId !== undefined && appliedOps.has(internedOpId);
+      },
+      getOpsSince,
+      missingDeps,
+      markRejected,
+      isRejected: (opId: OpId) => {
+        const internedOpId = interner.find(opId);
+        return internedOpId !== undefined && rejected.has(internedOpId);
+      },
+      opOf,
+      exportOp,
+      lobbyOps: () => [...lobby.values()],
+      compact,
+      registerActors,
+      acknowledge: (remoteActorId: ActorId, opIds: OpId[]) =>
+        acknowledge(remoteActorId, opIds.map(interner.intern)),
+      stableFrontier,
+      isCausallyStable: (opId: OpId) => {
+        const internedOpId = interner.find(opId);
+        return (
+          internedOpId !== undefined && causallyStableOps().has(internedOpId)
+        );
+      },
     };
   },
 };
+
+const createPicomerge = <V>(
+  actorId: string,
+  options: PicomergeOptions<V>,
+  snapshot?: Snapshot<V>,
+) => {
+  // the maximum operation counter seen so far expressed in a clock
+  const clock = options.clock ?? Clock.create(actorId);
+
+  const _logger = (string: string) => {
+    console.log(`[Actor '${actorId}'] ${string}`);
+  };
+
+  // the history of operations of the register
+  const history = History.create<V>(actorId, clock, options);
+  const encodeValue = options.valueCodec?.encode ?? encodeJson;
+  // the register with its current values
+  const register: MvRegister<V> = { values: [], terminalHeads: [] };
+
+  const listeners: Set<(change: Change<V>) => void> = new Set();
+
+  // values are compared by identity, hence setting an equal object counts
+  // as a change, whereas setting the same primitive value again does not
+  const isEqual = (a: V[], b: V[]) =>
+    a.length === b.length && a.every((value, i) => Object.is(value, b[i]));
+  const isEffective = ({ previous, current }: Change<V>) =>
+    !isEqual(previous, current);
+
+  const policy = options.invalidOpPolicy ?? "throw";
+  const quarantine: InvalidOpError[] = [];
+
+  // the checks which do not depend on the causal past of an op, the
+  // consistency with its causal past is checked once it is causally ready
+  // the ops of a batch are compared with the earlier ops of the same batch,
+  // too, as they have not been inserted yet
+  const validate = (
+    op: Op<V>,
+    batch?: Map<StringifiedOpId, Op<V>>,
+  ): InvalidOpError | undefined => {
+    const malformation = malformationOf(op);
+    if (malformation) return malformation;
+    const known = history.opOf(op.opId) ?? batch?.get(OpId.toString(op.opId));
+    // the op may have been sent by a replica which has compacted its preds
+    if (
+      known &&
+      !isSameOp(known, op, encodeValue) &&
+      !isSameOp(history.exportOp(known), op, encodeValue)
+    )
+      return new ConflictingOpError(
+        `Conflicting op: ${OpId.toString(op.opId)} is already in use`,
+        op,
+      );
+  };
+
+  const handleInvalidOps = (errors: InvalidOpError[]) => {
+    errors.forEach((error) => {
+      // the opId of a conflicting op is in use by another op
+      if (!(error instanceof ConflictingOpError))
+        history.markRejected(error.op);
+      options.onInvalidOp?.(error);
+      if (policy === "quarantine") quarantine.push(error);
+    });
+    if (policy === "throw" && errors.length > 0) throw errors[0];
+  };
+
+  // the listeners are notified once all ops have been applied, such that
+  // a throwing listener cannot prevent the remaining ops from being applied
+  // nor the invalid ops from being handled
+  const notifyAndHandleInvalidOps = (
+    changes: Change<V>[],
+    errors: InvalidOpError[],
+  ) => {
+    try {
+      changes.forEach((change) =>
+        listeners.forEach((listener) => listener(change)),
+      );
+    } finally {
+      handleInvalidOps(errors);
+    }
+  };
+
+  const apply = (ops: (Op<V> | undefined)[]) => {
+    const errors: InvalidOpError[] = [];
+    const reject = (error: InvalidOpError) => errors.push(error);
+    const changes: Change<V>[] = [];
+    ops.forEach((op) => {
+      if (op === undefined) return;
+      const error = validate(op);
+      if (error) return reject(error);
+      changes.push(...history.add(op, register, reject).filter(isEffective));
+    });
+    notifyAndHandleInvalidOps(changes, errors);
+  };
+
+  const applyBatch = (ops: (Op<V> | undefined)[]): BatchReport => {
+    const errors: InvalidOpError[] = [];
+    const reject = (error: InvalidOpError) => errors.push(error);
+    const batch: Map<StringifiedOpId, Op<V>> = new Map();
+    const { report, change } = history.addBatch(
+      ops.filter((op): op is Op<V> => {
+        if (op === undefined) return false;
+        const error = validate(op, batch);
+        if (error) reject(error);
+        else if (!batch.has(OpId.toString(op.opId)))
+          batch.set(OpId.toString(op.opId), op);
+        return !error;
+      }),
+      register,
+      reject,
+    );
+    notifyAndHandleInvalidOps(
+      change && isEffective(change) ? [change] : [],
+      errors,
+    );
+    return { ...report, rejected: errors };
+  };
+
+  const subscribe = (listener: (change: Change<V>) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const get = (): V[] => register.values;
+
+  const strategy = options.strategy ?? ConflictStrategy.lastWriterWins;
+
+  const getResolved = (): V | undefined =>
+    strategy(
+      register.terminalHeads.reduce((acc: Sibling<V>[], [head, _metadata]) => {
+        if (head.kind === OpKind.set)
+          acc.push({
+            value: head.value,
+            opId: head.opId,
+            actorId: OpId.actor(head.opId),
+          });
+        return acc;
+      }, []),
+      actorId,
+    );
+
+  const terminalHeads = (): [TerminalOp<V>, ResolutionMetadata][] =>
+    register.terminalHeads;
+
+  const set = (value: V): SetOp<V> => {
+    const setOp = history.set(value);
+    apply([setOp]);
+    return setOp;
+  };
+
+  const delete_ = (): DeleteOp | undefined => {
+    // safeguard to protect from generating a delete operation locally
+    // when the register is already empty.
+    if (register.values.length === 0) return;
+    const deleteOp = history.delete();
+    apply([deleteOp]);
+    return deleteOp;
+  };
+
+  const resolve = (
+    chosen: { opId: OpId } | { value: V },
+  ): ResolveOp | undefined => {
+    const resolveOp = history.resolveConflict(
+      (head) =>
+        "opId" in chosen
+          ? OpId.compare(head.opId, chosen.opId) === 0
+          : head.kind === OpKind.set &&
+            isSameValue(head.value, chosen.value, encodeValue),
+      register,
+    );
+    apply([resolveOp]);
+    return resolveOp;
+  };
+
+  const undo = (): RestoreOp | undefined => {
+    const undoOp = history.undo();
+    apply([undoOp]);
+    return undoOp;
+  };
+
+  const redo = (): RestoreOp | undefined => {
+    const redoOp = history.redo();
+    apply([redoOp]);
+    return redoOp;
+  };
+
+  const transaction = (fn: () => void): Op<V>[] => {
+    const headsBefore = history.heads();
+    history.beginGroup();
+    try {
+      fn();
+    } finally {
+      history.endGroup();
+    }
+    // all local ops generated by the transaction, which are to be sent to
+    // remote replicas
+    return history
+      .getOpsSince(headsBefore)
+      .filter((op) => OpId.actor(op.opId) === actorId);
+  };
+
+  const restoreTo = (frontier: OpId[]): Op<V>[] => {
+    const { values } = history.getAt(frontier);
+    if (isEqual(values, register.values)) return [];
+    // the sets share their preds, hence they are siblings just like the values
+    // at the frontier, where the set written last is the first sibling
+    const preds = new Set(history.heads().map(OpId.toString));
+    return transaction(() => {
+      if (values.length === 0) apply([history.delete()]);
+      [...values]
+        .reverse()
+        .forEach((value) => apply([history.set(value, preds)]));
+    });
+  };
+
+  const revert = (opId: OpId): RestoreOp | undefined => {
+    const revertOp = history.revert(opId, register);
+    apply([revertOp]);
+    return revertOp;
+  };
+
+  const globalUndo = (): RestoreOp | undefined => {
+    const undoOp = history.globalUndo();
+    apply([undoOp]);
+    return undoOp;
+  };
+
+  const globalRedo = (): RestoreOp | undefined => {
+    const redoOp = history.globalRedo();
+    apply([redoOp]);
+    return redoOp;
+  };
+
+  const save = (): Snapshot<V> => ({ actorId, ...history.save() });
+
+  const heads = (): OpId[] => history.heads();
+
+  const getOpsSince = (remoteHeads: OpId[]): Op<V>[] =>
+    history.getOpsSince(remoteHeads);
+
+  const missingDeps = (): OpId[] => history.missingDeps();
+
+  const hasOp = (opId: OpId): boolean => history.has(opId);
+
+  if (snapshot) {
+    // the undo and redo stacks belong to the snapshot's actor, hence
+    // a replica of another actor only inherits the operation history
+    const isSameActor = snapshot.actorId === actorId;
+    history.load(
+      isSameActor
+        ? snapshot
+        : {
+            ...snapshot,
+            undoStack: [],
+            redoStack: [],
+            global: { undone: [], ops: [], redoStack: [] },
+          },
+      register,
+    );
+  }
+
+  return {
+    apply,
+    /**
+     * Applies many ops at once, e.g., when syncing large histories: the ops
+     * are inserted in a causal order and the register is updated only once.
+     * Subscribers are notified of a single change, caused by the last
+     * applied op.
+     */
+    applyBatch,
+    get,
+    /**
+     * A single value picked out of the siblings by the conflict strategy,
+     * or `undefined` if the register has no value.
+     */
+    getResolved,
+    /**
+     * The values and terminal heads of the register as of the given frontier
+     * of applied ops, e.g., the heads of an earlier point in time.
+     */
+    getAt: (frontier: OpId[]) => history.getAt(frontier),
+    /**
+     * All applied ops in a causal order, each with its intent and the values
+     * of the register as of that op. Ops removed by a compaction are absent.
+     */
+    historyLog: (): HistoryEntry<V>[] => history.historyLog(),
+    /**
+     * Writes the values of the register as of the given frontier, that is,
+     * sets them as siblings or deletes the values, as a single undo entry.
+     * Returns the generated ops, which are empty if the values are equal
+     * already. Remote ops concurrent to the restore are merged like any
+     * concurrent op, e.g., the values of concurrent sets become siblings of
+     * the restored values.
+     */
+    restoreTo,
+    /**
+     * Registers a listener which is called once for every op, local or
+     * remote, that changes the values of the register, including ops released
+     * from the lobby. Returns a function to unsubscribe the listener.
+     */
+    subscribe,
+    set,
+    delete: delete_,
+    /**
+     * Resolves a conflict of concurrent siblings by picking one of them,
+     * given either by the opId of its terminal op or by its value, which is
+     * compared structurally like the values of duplicate ops. The other
+     * siblings are not lost: undoing the resolution brings them back.
+     * Returns `undefined` if there is no conflict.
+     */
+    resolve,
+    undo,
+    redo,
+    /**
+     * Runs the given fn as a single undo unit: one `undo()` restores the state
+     * before the transaction and one `redo()` restores the state after it.
+     * Returns the local ops generated within the transaction.
+     */
+    transaction,
+    /**
+     * Opens an undo group, the manual counterpart of `transaction()`.
+     * Groups may be nested, in which case they are merged into the outermost
+     * group. Undo and redo are not possible while a group is open.
+     */
+    beginGroup: () => history.beginGroup(),
+    endGroup: () => history.endGroup(),
+    /**
+     * Ends the current undo entry under a coalesce policy, such that the next
+     * local set or delete starts a new one. Undo, redo and revert implicitly
+     * end the current undo entry.
+     */
+    undoBoundary: () => history.boundary(),
+    terminalHeads,
+    undoStack: () => history.undoStack(),
+    redoStack: () => history.redoStack(),
+    /**
+     * Reverts a specific terminal op (local or remote) by restoring the state
+     * before it, just like an undo of that op would do. If the op has already
+     * been overwritten by later ops, there is nothing to revert and
+     * `undefined` is returned. The revert can be redone via `redo()`.
+     */
+    revert,
+    /**
+     * Replaces the undo and redo stacks with the ones reconstructed from the
+     * applied ops of the given actor, which defaults to this replica's actor.
+     * Hence, the undo history follows the actor's ops rather than the process,
+     * e.g., after reinstalling, the ops received back can be undone again.
+     */
+    rebuildStacks: (ofActorId: ActorId = actorId) =>
+      history.rebuildStacks(ofActorId),
+    /**
+     * Reverts the most recent operation from _any_ actor, according to the
+     * total order of opIds. Repeated global undos step further back,
+     * skipping the ops generated by global undo and redo themselves.
+     * This does not affect the local undo and redo stacks.
+     */
+    globalUndo,
+    /**
+     * Reverts the most recent global undo of this replica. A new local set
+     * or delete clears the global redo stack.
+     */
+    globalRedo,
+    globalRedoStack: () => history.globalRedoStack(),
+    save,
+    /**
+     * The frontier of the operation history, that is, the applied ops
+     * which are not (yet) a pred of any other applied op.
+     */
+    heads,
+    /**
+     * The heads, each with its hash, ordered by their opIds. As the hash of
+     * an op covers its whole causal past, two replicas hold the same ops iff
+     * their head hashes are equal. The hash of a head without one, e.g., if
+     * the replica does not hash its ops, is `null`, in which case only the
+     * opIds of the heads are compared.
+     */
+    headHashes: (): [OpId, OpHash | null][] => history.headHashes(),
+    /**
+     * All applied ops which are not known to a remote replica given its
+     * heads, in a causal order. Remote heads unknown to this replica
+     * are ignored. Preds removed by a compaction are replaced by the preds
+     * they are equivalent to.
+     */
+    getOpsSince,
+    /**
+     * The opIds the ops in the lobby are (transitively) waiting for,
+     * except for the opIds of rejected ops.
+     */
+    missingDeps,
+    /**
+     * Whether an op with the given opId has been rejected as invalid.
+     */
+    isRejected: (opId: OpId): boolean => history.isRejected(opId),
+    /**
+     * The ops in the lobby, which are not yet causally ready.
+     */
+    lobbyOps: (): Op<V>[] => history.lobbyOps(),
+    /**
+     * The errors of the invalid ops which have been quarantined under the
+     * `quarantine` policy, each carrying the rejected op.
+     */
+    quarantine: (): InvalidOpError[] => [...quarantine],
+    hasOp,
+    /**
+     * Removes effect-free undo/redo pairs from the operation history once all
+     * known actors have seen them, which shortens the resolution of later
+     * redo ops. The values and terminal heads of the register as well as the
+     * results of future undo and redo ops stay the same, only the resolution
+     * metadata of the terminal heads shrinks. Returns the removed opIds.
+     * Later ops referencing a removed op are sent by `getOpsSince()` with
+     * the preds it is equivalent to, such that replicas joining afterwards
+     * can still catch up. Replicas which hash their ops never compact, as
+     * the preds of content-addressed ops cannot be replaced.
+     */
+    compact: (): OpId[] => history.compact(register),
+    /**
+     * Registers the actors participating in the register. An op is only
+     * causally stable once all registered actors have seen it, even those
+     * which have not yet sent any op.
+     */
+    registerActors: (actorIds: ActorId[]) => history.registerActors(actorIds),
+    /**
+     * Records that the remote actor has seen the given heads, e.g.,
+     * the heads contained in a sync message of that actor.
+     */
+    acknowledge: (remoteActorId: ActorId, heads: OpId[]) =>
+      history.acknowledge(remoteActorId, heads),
+    /**
+     * The heads of all ops which all known actors have seen.
+     */
+    stableFrontier: (): OpId[] => history.stableFrontier(),
+    isCausallyStable: (opId: OpId): boolean => history.isCausallyStable(opId),
+  };
+};
+
+export type Picomerge<V> = ReturnType<typeof Picomerge.create<V>>;
+export const Picomerge = {
+  /**
+   * Creates an empty replica. With a coalesce policy, consecutive local sets
+   * in quick succession are undone and redone as a single entry.
+   */
+  create: <V>(actorId: string, options: PicomergeOptions<V> = {}) =>
+    createPicomerge<V>(actorId, options),
+  /**
+   * Rebuilds a replica from a snapshot obtained via `Picomerge.save()`.
+   * If the actorId matches the snapshot's actor, the result is identical
+   * to the saved replica, including its undo and redo stacks.
+   */
+  load: <V>(
+    snapshot: Snapshot<V>,
+    actorId: string,
+    options: PicomergeOptions<V> = {},
+  ) => createPicomerge<V>(actorId, options, snapshot),
+};
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight } from "./helpers";
+import { Op, Picomerge } from "./picomerge";
+
+const opIdsOf = <V>(ops: Op<V>[]) => ops.map((op) => op.opId);
+
+describe("Picomerge: rebuild undo and redo stacks", () => {
+  test("a reinstalled replica can undo the ops received back from a peer", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    b.apply([a.set(1), a.set(2), a.set(3)]);
+    b.apply([a.undo(), a.undo(), a.redo()]);
+    b.apply([b.set(4)]);
+    const [undoStack, redoStack] = [a.undoStack(), a.redoStack()];
+
+    // A loses its state and receives its ops back from B
+    const reinstalled = Picomerge.create<number>("A");
+    reinstalled.apply(b.getOpsSince([]));
+    expect(reinstalled.undoStack()).toEqual([]);
+
+    reinstalled.rebuildStacks();
+    expect(opIdsOf(reinstalled.undoStack())).toEqual(opIdsOf(undoStack));
+    expect(opIdsOf(reinstalled.redoStack())).toEqual(opIdsOf(redoStack));
+
+    b.apply([reinstalled.undo()]);
+    expect([reinstalled.get(), b.get()]).toEqual([[1], [1]]);
+    b.apply([reinstalled.redo()]);
+    b.apply([reinstalled.redo()]);
+    expect([reinstalled.get(), b.get()]).toEqual([[3], [3]]);
+  });
+
+  test("reverts, resolves and global undos are replayed", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    const firstOp = a.set(1);
+    const secondOp = a.set(2);
+    a.apply([b.set(3)]);
+    const resolveOp = a.resolve({ value: 2 })!;
+    const revertOp = a.revert(secondOp.opId)!;
+    a.apply([a.globalUndo()]);
+    const [undoStack, redoStack] = [a.undoStack(), a.redoStack()];
+    expect([undoStack, redoStack]).toEqual([[firstOp, resolveOp], [revertOp]]);
+
+    a.rebuildStacks();
+    expect(a.undoStack()).toEqual(undoStack);
+    expect(a.redoStack()).toEqual(redoStack);
+  });
+
+  test("the stacks of another actor can be adopted", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    a.apply([b.set(1), b.set(2)]);
+    a.set(3);
+    a.rebuildStacks("B");
+    expect(opIdsOf(a.undoStack())).toEqual([
+      [1, "B"],
+      [2, "B"],
+    ]);
+    a.undo();
+    b.apply(a.getOpsSince(b.heads()));
+    expect([a.get(), b.get()]).toEqual([[1], [1]]);
+  });
+
+  test("groups are not recorded in the ops", () => {
+    const a = Picomerge.create<number>("A");
+    a.transaction(() => {
+      a.set(1);
+      a.set(2);
+    });
+    expect(a.undoStack()).toHaveLength(1);
+
+    a.rebuildStacks();
+    expect(a.undoStack()).toHaveLength(2);
+    a.beginGroup();
+    expect(() => a.rebuildStacks()).toThrow("while a group is open");
+  });
+});
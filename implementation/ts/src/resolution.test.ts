@@ -0,0 +1,22 @@
+import { describe, expect, test } from "@jest/globals";
+import { generateUndoRedoSequence } from "./helpers";
+
+describe("Picomerge: incremental resolution", () => {
+  test("long undo/redo sequences are resolved incrementally", () => {
+    const length = 20_000;
+    const [a] = generateUndoRedoSequence("A", [1, 2], length);
+    expect(a.get()).toEqual([2]);
+
+    const [[op, metadata]] = a.terminalHeads();
+    expect(op).toMatchObject({ value: 2 });
+    expect(metadata.resolutionDepth).toBe(length + 1);
+    // the trace is only materialized on access
+    expect(metadata.opIdTrace).toHaveLength(length + 1);
+    expect(metadata.opIdTrace[0]).toBe(`${2 * length + 2}@A`);
+    expect(metadata.opIdTrace[length]).toBe("2@A");
+
+    a.undo();
+    expect(a.get()).toEqual([1]);
+    expect(a.terminalHeads()[0][1].resolutionDepth).toBe(2);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "@jest/globals";
+import { OpCodec } from "./codec";
+import { createLeftAndRight } from "./helpers";
+import { Change, OpKind } from "./picomerge";
+
+/**
+ * Creates two replicas which have concurrently set 1 (left) and 2 (right).
+ */
+const createConflict = () => {
+  const { left, right } = createLeftAndRight<number>();
+  const leftOp = left.set(1);
+  const rightOp = right.set(2);
+  left.apply([rightOp]);
+  right.apply([leftOp]);
+  return { left, right, leftOp, rightOp };
+};
+
+describe("Picomerge: resolve", () => {
+  test("resolving by value or by opId picks a single sibling", () => {
+    const { left, right, leftOp } = createConflict();
+    expect(left.get()).toHaveLength(2);
+
+    const byValue = left.resolve({ value: 2 })!;
+    expect(byValue).toMatchObject({ kind: OpKind.resolve });
+    expect(left.get()).toEqual([2]);
+    expect(left.heads()).toEqual([byValue.opId]);
+
+    const byOpId = right.resolve({ opId: leftOp.opId })!;
+    expect(byOpId.chosen).toEqual(leftOp.opId);
+    expect(right.get()).toEqual([1]);
+  });
+
+  test("resolving without a conflict is a no-op", () => {
+    const { left } = createLeftAndRight<number>();
+    expect(left.resolve({ value: 1 })).toBeUndefined();
+    left.set(1);
+    expect(left.resolve({ value: 1 })).toBeUndefined();
+    expect(left.undoStack()).toHaveLength(1);
+  });
+
+  test("resolving by a structurally equal value", () => {
+    const { left, right } = createLeftAndRight<{ k: number }>();
+    const leftOp = left.set({ k: 1 });
+    const rightOp = right.set({ k: 2 });
+    left.apply([rightOp]);
+    right.apply([leftOp]);
+
+    left.resolve({ value: { k: 1 } });
+    expect(left.get()).toEqual([{ k: 1 }]);
+    expect(() => right.resolve({ value: { k: 3 } })).toThrow(
+      "the chosen sibling is not a terminal head",
+    );
+  });
+
+  test("resolving to an unknown sibling throws", () => {
+    const { left } = createConflict();
+    expect(() => left.resolve({ value: 3 })).toThrow(
+      "the chosen sibling is not a terminal head",
+    );
+    expect(() => left.resolve({ opId: [42, "left"] })).toThrow(
+      "the chosen sibling is not a terminal head",
+    );
+    expect(left.get()).toHaveLength(2);
+  });
+
+  test("remote replicas converge on the resolution", () => {
+    const { left, right } = createConflict();
+    right.apply([left.resolve({ value: 1 })]);
+    expect([left.get(), right.get()]).toEqual([[1], [1]]);
+
+    // a concurrent set is a new conflict with the resolution
+    const { left: l, right: r, rightOp } = createConflict();
+    const resolveOp = l.resolve({ opId: rightOp.opId });
+    const setOp = r.set(3);
+    l.apply([setOp]);
+    r.apply([resolveOp]);
+    expect(l.get()).toEqual(r.get());
+    expect([...l.get()].sort()).toEqual([2, 3]);
+  });
+
+  test("undo brings the conflict back and redo resolves it again", () => {
+    const { left } = createConflict();
+    const conflict = left.get();
+    left.resolve({ value: 1 });
+
+    left.undo();
+    expect(left.get()).toEqual(conflict);
+    left.redo();
+    expect(left.get()).toEqual([1]);
+    left.undo();
+    expect(left.get()).toEqual(conflict);
+  });
+
+  test("resolutions are reported to subscribers", () => {
+    const { left } = createConflict();
+    const conflict = left.get();
+    const changes: Change<number>[] = [];
+    left.subscribe((change) => changes.push(change));
+    left.resolve({ value: 2 });
+    left.undo();
+    left.redo();
+    expect(changes.map(({ kind, current }) => ({ kind, current }))).toEqual([
+      { kind: "resolve", current: [2] },
+      { kind: "undo", current: conflict },
+      { kind: "redo", current: [2] },
+    ]);
+  });
+
+  test("resolve ops survive the codec", () => {
+    const { left } = createConflict();
+    const resolveOp = left.resolve({ value: 1 })!;
+    const codec = OpCodec.create<number>();
+    expect(codec.fromJson(codec.toJson(resolveOp))).toEqual(resolveOp);
+    expect(codec.fromBinary(codec.toBinary(resolveOp))).toEqual(resolveOp);
+    expect(() =>
+      codec.fromWire({ ...codec.toWire(resolveOp), version: 1 }),
+    ).toThrow("unknown kind '3'");
+  });
+});
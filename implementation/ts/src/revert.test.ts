@@ -0,0 +1,93 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight } from "./helpers";
+import { Picomerge } from "./picomerge";
+
+describe("Picomerge: selective undo via revert", () => {
+  test("revert a remote op and redo the revert", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    b.apply([a.set(1)]);
+    const remoteOp = b.set(2);
+    a.apply([remoteOp]);
+
+    const revertOp = a.revert(remoteOp.opId)!;
+    expect(revertOp.anchor).toEqual(remoteOp.opId);
+    b.apply([revertOp]);
+    expect([a.get(), b.get()]).toEqual([[1], [1]]);
+
+    b.apply([a.redo()]);
+    expect([a.get(), b.get()]).toEqual([[2], [2]]);
+  });
+
+  test("revert an overwritten op has no effect", () => {
+    const a = Picomerge.create<number>("A");
+
+    const overwrittenOp = a.set(1);
+    a.set(2);
+    expect(a.revert(overwrittenOp.opId)).toBeUndefined();
+    expect(a.get()).toEqual([2]);
+    expect(a.redoStack()).toEqual([]);
+  });
+
+  test("revert a local op removes it from the undo stack", () => {
+    const a = Picomerge.create<number>("A");
+
+    const firstOp = a.set(1);
+    const secondOp = a.set(2);
+    a.revert(secondOp.opId);
+    expect(a.get()).toEqual([1]);
+    expect(a.undoStack()).toEqual([firstOp]);
+
+    a.undo();
+    expect(a.get()).toEqual([]);
+    a.redo();
+    expect(a.get()).toEqual([1]);
+    // redo the revert
+    a.redo();
+    expect(a.get()).toEqual([2]);
+    expect(a.undoStack()).toEqual([firstOp, secondOp]);
+  });
+
+  test("revert a delete op", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    b.apply([a.set(1)]);
+    const deleteOp = b.delete()!;
+    a.apply([deleteOp]);
+
+    b.apply([a.revert(deleteOp.opId)]);
+    expect([a.get(), b.get()]).toEqual([[1], [1]]);
+  });
+
+  test("revert one of several concurrent siblings restores the state before it", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    b.apply([a.set(1)]);
+    a.apply([b.set(2)]);
+    const concurrentSetA = a.set(3);
+    const concurrentSetB = b.set(4);
+    a.apply([concurrentSetB]);
+    b.apply([concurrentSetA]);
+    expect([a.get(), b.get()]).toEqual([
+      [4, 3],
+      [4, 3],
+    ]);
+
+    // just like an undo, reverting restores the state before the op
+    a.apply([b.revert(concurrentSetA.opId)]);
+    expect([a.get(), b.get()]).toEqual([[2], [2]]);
+  });
+
+  test("only applied terminal ops can be reverted", () => {
+    const a = Picomerge.create<number>("A");
+
+    a.set(1);
+    const undoOp = a.undo()!;
+    expect(() => a.revert(undoOp.opId)).toThrow(
+      "Cannot revert 2@A: not an applied terminal op",
+    );
+    expect(() => a.revert([7, "B"])).toThrow(
+      "Cannot revert 7@B: not an applied terminal op",
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "@jest/globals";
+import { SnapshotCodec } from "./codec";
+import { createLeftAndRight } from "./helpers";
+import { Picomerge } from "./picomerge";
+
+describe("Picomerge: save and load", () => {
+  test("loading a snapshot rebuilds an identical replica", () => {
+    const { left, right } = createLeftAndRight<number>();
+
+    right.apply([left.set(1), left.set(2)]);
+    left.apply([right.set(3)]);
+    const concurrentSetLeft = left.set(4);
+    const concurrentSetRight = right.set(5);
+    left.apply([concurrentSetRight]);
+    const leftUndo = left.undo();
+
+    const loaded = Picomerge.load(left.save(), "left");
+    expect(loaded.get()).toEqual(left.get());
+    expect(loaded.terminalHeads()).toEqual(left.terminalHeads());
+    expect(loaded.undoStack()).toEqual(left.undoStack());
+    expect(loaded.redoStack()).toEqual(left.redoStack());
+    expect(loaded.save()).toEqual(left.save());
+
+    // both replicas behave identically for subsequent operations
+    const rightOps = [right.undo(), right.set(6)];
+    left.apply(rightOps);
+    loaded.apply(rightOps);
+    right.apply([concurrentSetLeft, leftUndo, left.redo()]);
+    loaded.redo();
+    expect([loaded.get(), right.get()]).toEqual([left.get(), left.get()]);
+  });
+
+  test("undo history survives a restart", () => {
+    const a = Picomerge.create<string>("A");
+    a.set("black");
+    a.set("red");
+    a.set("green");
+    a.undo();
+
+    const codec = SnapshotCodec.create<string>();
+    const restarted = Picomerge.load(
+      codec.fromJson(codec.toJson(a.save())),
+      "A",
+    );
+    expect(restarted.get()).toEqual(["red"]);
+
+    // the clock continues where it stopped
+    const redoOp = restarted.redo()!;
+    expect(redoOp.opId).toEqual(a.redo()!.opId);
+    expect(restarted.get()).toEqual(["green"]);
+
+    restarted.undo();
+    restarted.undo();
+    expect(restarted.get()).toEqual(["black"]);
+    restarted.undo();
+    expect(restarted.get()).toEqual([]);
+    expect(restarted.undo()).toBeUndefined();
+  });
+
+  test("pending lobby operations are restored", () => {
+    const { left, right } = createLeftAndRight<number>();
+
+    const leftOps = [left.set(1), left.set(2), left.set(3)];
+    right.apply([leftOps[2], leftOps[1]]);
+    expect(right.get()).toEqual([]);
+
+    const loaded = Picomerge.load(right.save(), "right");
+    expect(loaded.get()).toEqual([]);
+    expect(loaded.save().lobby).toHaveLength(2);
+
+    loaded.apply([leftOps[0]]);
+    expect(loaded.get()).toEqual([3]);
+  });
+
+  test("another actor only inherits the operation history", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(1);
+    a.set(2);
+
+    const b = Picomerge.load(a.save(), "B");
+    expect(b.get()).toEqual([2]);
+    expect(b.undoStack()).toEqual([]);
+    expect(b.undo()).toBeUndefined();
+
+    const op = b.set(3);
+    expect(op.opId).toEqual([3, "B"]);
+    a.apply([op]);
+    expect(a.get()).toEqual([3]);
+  });
+
+  test("rejects snapshots with inconsistent stacks", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(1);
+    const snapshot = a.save();
+    expect(() =>
+      Picomerge.load({ ...snapshot, undoStack: [[7, "A"]] }, "A"),
+    ).toThrow("stack references unknown op 7@A");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight, generateUndoRedoSequence } from "./helpers";
+import { Picomerge } from "./picomerge";
+
+describe("Picomerge: causal stability", () => {
+  test("without remote actors all ops are causally stable", () => {
+    const a = Picomerge.create<number>("A");
+    expect(a.stableFrontier()).toEqual([]);
+
+    const op = a.set(1);
+    expect(a.isCausallyStable(op.opId)).toBe(true);
+    expect(a.stableFrontier()).toEqual(a.heads());
+  });
+
+  test("ops are causally stable once all registered actors have seen them", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    a.registerActors(["B"]);
+
+    const ops = [a.set(1), a.set(2)];
+    // B has not seen anything yet
+    expect(a.stableFrontier()).toEqual([]);
+    expect(a.isCausallyStable(ops[0].opId)).toBe(false);
+
+    // B's op acknowledges the first op via its preds
+    b.apply([ops[0]]);
+    const opB = b.set(3);
+    a.apply([opB]);
+    expect(a.stableFrontier()).toEqual([opB.opId]);
+    expect(a.isCausallyStable(ops[0].opId)).toBe(true);
+    expect(a.isCausallyStable(ops[1].opId)).toBe(false);
+
+    // B explicitly acknowledges the second op (and A's heads)
+    b.apply([ops[1]]);
+    a.acknowledge("B", b.heads());
+    expect(a.isCausallyStable(ops[1].opId)).toBe(true);
+    expect(a.stableFrontier()).toEqual(a.heads());
+  });
+
+  test("acknowledgements of ops not yet applied take effect once they are", () => {
+    const a = Picomerge.create<number>("A");
+    const b = Picomerge.create<number>("B");
+    const c = Picomerge.create<number>("C");
+    a.registerActors(["B", "C"]);
+
+    const opC = c.set(1);
+    b.apply([opC]);
+    a.acknowledge("B", b.heads());
+    a.acknowledge("C", c.heads());
+    expect(a.stableFrontier()).toEqual([]);
+
+    a.apply([opC]);
+    expect(a.stableFrontier()).toEqual([opC.opId]);
+  });
+
+  test("a silent registered actor prevents compaction", () => {
+    const [a, ops] = generateUndoRedoSequence("A", [1], 3);
+    a.registerActors(["B"]);
+    expect(a.compact()).toEqual([]);
+
+    const b = Picomerge.load(a.save(), "B");
+    a.acknowledge("B", b.heads());
+    expect(a.compact()).toEqual(ops.slice(0, -2).map((op) => op.opId));
+  });
+
+  test("actors and their acknowledgements are part of a snapshot", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    a.registerActors(["B", "C"]);
+    const op = a.set(1);
+    b.apply([op]);
+    a.acknowledge("B", b.heads());
+
+    const loaded = Picomerge.load(a.save(), "A");
+    expect(loaded.isCausallyStable(op.opId)).toBe(false);
+    loaded.acknowledge("C", [op.opId]);
+    expect(loaded.isCausallyStable(op.opId)).toBe(true);
+  });
+});
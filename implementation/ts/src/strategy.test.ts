@@ -0,0 +1,116 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  ConflictStrategy,
+  OpId,
+  Picomerge,
+  PicomergeOptions,
+} from "./picomerge";
+
+const createAAndB = <V>(
+  optionsA: PicomergeOptions<V> = {},
+  optionsB: PicomergeOptions<V> = {},
+) => ({
+  a: Picomerge.create<V>("A", optionsA),
+  b: Picomerge.create<V>("B", optionsB),
+});
+
+const max = ConflictStrategy.merge<number>((values) => Math.max(...values));
+
+describe("Picomerge: conflict strategies", () => {
+  test("an empty or deleted register resolves to undefined", () => {
+    const { a } = createAAndB<number>({ strategy: max });
+    expect(a.getResolved()).toBeUndefined();
+    a.set(1);
+    expect(a.getResolved()).toBe(1);
+    a.delete();
+    expect(a.getResolved()).toBeUndefined();
+  });
+
+  test("figure 2: concurrent sets", () => {
+    const { a, b } = createAAndB<number>(
+      { strategy: ConflictStrategy.preferLocal },
+      { strategy: ConflictStrategy.preferLocal },
+    );
+    b.apply([a.set(1)]);
+    a.apply([b.set(2)]);
+    const concurrentSetA = a.set(3);
+    const concurrentSetB = b.set(4);
+    a.apply([concurrentSetB]);
+    b.apply([concurrentSetA]);
+
+    // the strategy does not affect the replicated state
+    expect([a.get(), b.get()]).toEqual([
+      [4, 3],
+      [4, 3],
+    ]);
+    expect(a.heads().sort(OpId.compare)).toEqual(b.heads().sort(OpId.compare));
+    // but each replica prefers its own value
+    expect([a.getResolved(), b.getResolved()]).toEqual([3, 4]);
+
+    const lww = Picomerge.create<number>("C");
+    lww.apply(a.getOpsSince([]));
+    expect(lww.getResolved()).toBe(4);
+    const preferA = Picomerge.create<number>("C", {
+      strategy: ConflictStrategy.preferActor("A"),
+    });
+    preferA.apply(a.getOpsSince([]));
+    expect(preferA.getResolved()).toBe(3);
+
+    // a delete produces no sibling
+    const deleteA = a.delete()!;
+    b.apply([deleteA]);
+    expect([a.getResolved(), b.getResolved()]).toEqual([undefined, undefined]);
+  });
+
+  test("figure 3: concurrent undos", () => {
+    const { a, b } = createAAndB<number>(
+      { strategy: max },
+      { strategy: ConflictStrategy.preferLocal },
+    );
+    b.apply([a.set(1)]);
+    a.apply([b.set(2)]);
+    const concurrentSetA = a.set(4);
+    const concurrentSetB = b.set(3);
+    b.apply([concurrentSetA]);
+    a.apply([concurrentSetB]);
+    a.apply([b.set(5)]);
+
+    const concurrentUndoA = a.undo()!;
+    const concurrentUndoB = b.undo()!;
+    b.apply([concurrentUndoA]);
+    a.apply([concurrentUndoB]);
+    expect([a.get(), b.get()]).toEqual([
+      [3, 4, 2],
+      [3, 4, 2],
+    ]);
+    expect([a.getResolved(), b.getResolved()]).toEqual([4, 3]);
+
+    a.apply([b.undo()]);
+    expect([a.getResolved(), b.getResolved()]).toEqual([2, 2]);
+  });
+
+  test("custom strategies receive the siblings in the order of get()", () => {
+    const seen: unknown[] = [];
+    const { a, b } = createAAndB<string>({
+      strategy: (siblings, localActorId) => {
+        seen.push({ siblings, localActorId });
+        return siblings.map(({ value }) => value).join("+") || undefined;
+      },
+    });
+    b.apply([a.set("x")]);
+    const concurrentSetA = a.set("y");
+    a.apply([b.set("z")]);
+    b.apply([concurrentSetA]);
+    expect(a.get()).toEqual(["z", "y"]);
+    expect(a.getResolved()).toBe("z+y");
+    expect(seen).toEqual([
+      {
+        siblings: [
+          { value: "z", opId: [2, "B"], actorId: "B" },
+          { value: "y", opId: [2, "A"], actorId: "A" },
+        ],
+        localActorId: "A",
+      },
+    ]);
+  });
+});
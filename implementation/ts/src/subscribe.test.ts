@@ -0,0 +1,104 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight } from "./helpers";
+import { Change } from "./picomerge";
+
+const summarize = <V>({ previous, current, op, kind, local }: Change<V>) => ({
+  previous,
+  current,
+  opId: op.opId,
+  kind,
+  local,
+});
+
+describe("Picomerge: subscribe", () => {
+  test("local changes are classified", () => {
+    const { left } = createLeftAndRight<number>("A", "B");
+    const changes: Change<number>[] = [];
+    left.subscribe((change) => changes.push(change));
+
+    left.set(1);
+    left.set(2);
+    left.undo();
+    left.redo();
+    left.delete();
+
+    expect(changes.map(summarize)).toEqual([
+      { previous: [], current: [1], opId: [1, "A"], kind: "set", local: true },
+      { previous: [1], current: [2], opId: [2, "A"], kind: "set", local: true },
+      {
+        previous: [2],
+        current: [1],
+        opId: [3, "A"],
+        kind: "undo",
+        local: true,
+      },
+      {
+        previous: [1],
+        current: [2],
+        opId: [4, "A"],
+        kind: "redo",
+        local: true,
+      },
+      {
+        previous: [2],
+        current: [],
+        opId: [5, "A"],
+        kind: "delete",
+        local: true,
+      },
+    ]);
+  });
+
+  test("remote changes, including those released from the lobby", () => {
+    const { left, right } = createLeftAndRight<number>("A", "B");
+    const changes: Change<number>[] = [];
+    right.subscribe((change) => changes.push(change));
+
+    const ops = [left.set(1), left.set(2)];
+    right.apply([ops[1]]);
+    expect(changes).toEqual([]);
+    right.apply([ops[0]]);
+
+    expect(changes.map(summarize)).toEqual([
+      { previous: [], current: [1], opId: [1, "A"], kind: "set", local: false },
+      {
+        previous: [1],
+        current: [2],
+        opId: [2, "A"],
+        kind: "set",
+        local: false,
+      },
+    ]);
+  });
+
+  test("only effective changes are reported", () => {
+    const { left, right } = createLeftAndRight<number>("A", "B");
+    const changes: Change<number>[] = [];
+    const unsubscribe = left.subscribe((change) => changes.push(change));
+
+    const op = left.set(1);
+    // duplicates are not applied
+    left.apply([op]);
+    // the same value again does not change the register
+    left.set(1);
+    expect(changes).toHaveLength(1);
+
+    // a concurrent set of an equal value is a sibling, hence a change
+    left.apply([right.set(1)]);
+    expect(changes.map(({ current }) => current)).toEqual([[1], [1, 1]]);
+
+    unsubscribe();
+    left.set(2);
+    expect(changes).toHaveLength(2);
+  });
+
+  test("a throwing listener does not prevent ops from being applied", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    const ops = [a.set(1), a.set(2)];
+    b.subscribe(() => {
+      throw new Error("listener failed");
+    });
+    expect(() => b.apply(ops)).toThrow("listener failed");
+    expect(b.get()).toEqual([2]);
+  });
+});
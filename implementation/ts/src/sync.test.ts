@@ -0,0 +1,217 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight } from "./helpers";
+import { OpId, Picomerge } from "./picomerge";
+import { SyncMessageCodec } from "./codec";
+import { Sync, SyncMessage } from "./sync";
+
+/**
+ * Runs the sync protocol between two replicas until neither of them
+ * has anything left to say. The messages may be passed through a transport,
+ * e.g., encoded and decoded again.
+ */
+const syncUntilConverged = <V>(
+  a: Picomerge<V>,
+  b: Picomerge<V>,
+  transport: (message: SyncMessage<V>) => SyncMessage<V> = (message) => message,
+) => {
+  const [syncA, syncB] = [Sync.create(a), Sync.create(b)];
+  let messages = 0;
+  let opsSent = 0;
+  for (;;) {
+    const toB = syncA.generateMessage();
+    if (toB) {
+      messages++;
+      opsSent += toB.ops.length;
+      syncB.receiveMessage(transport(toB));
+    }
+    const toA = syncB.generateMessage();
+    if (toA) {
+      messages++;
+      opsSent += toA.ops.length;
+      syncA.receiveMessage(transport(toA));
+    }
+    if (!toA && !toB) return { messages, opsSent };
+    if (messages > 100) throw new Error("sync does not terminate");
+  }
+};
+
+const sortedHeads = <V>(picomerge: Picomerge<V>) =>
+  picomerge.heads().sort(OpId.compare);
+
+describe("Picomerge: heads and getOpsSince", () => {
+  test("heads are the frontier of the operation history", () => {
+    const { left, right } = createLeftAndRight<number>();
+    expect(left.heads()).toEqual([]);
+
+    const leftOp = left.set(1);
+    const rightOp = right.set(2);
+    expect(left.heads()).toEqual([leftOp.opId]);
+
+    left.apply([rightOp]);
+    expect(sortedHeads(left)).toEqual([leftOp.opId, rightOp.opId]);
+
+    const mergeOp = left.set(3);
+    expect(left.heads()).toEqual([mergeOp.opId]);
+  });
+
+  test("getOpsSince returns only the ops unknown to the remote heads", () => {
+    const { left, right } = createLeftAndRight<number>();
+
+    const sharedOps = [left.set(1), left.set(2)];
+    right.apply(sharedOps);
+    const sharedHeads = right.heads();
+    const leftOps = [left.set(3), left.undo()!];
+    right.set(4);
+
+    expect(left.getOpsSince(sharedHeads)).toEqual(leftOps);
+    expect(left.getOpsSince([])).toEqual([...sharedOps, ...leftOps]);
+    // unknown remote heads are ignored
+    expect(left.getOpsSince(right.heads())).toEqual([...sharedOps, ...leftOps]);
+
+    right.apply(left.getOpsSince(right.heads()));
+    left.apply(right.getOpsSince(left.heads()));
+    expect([left.get(), right.get()]).toEqual([
+      [2, 4],
+      [2, 4],
+    ]);
+    expect(sortedHeads(left)).toEqual(sortedHeads(right));
+  });
+});
+
+describe("Sync", () => {
+  test("sync of two empty replicas", () => {
+    const { left, right } = createLeftAndRight<number>();
+    expect(syncUntilConverged(left, right)).toEqual({
+      messages: 2,
+      opsSent: 0,
+    });
+  });
+
+  test("sync of an empty replica with a non-empty replica", () => {
+    const { left, right } = createLeftAndRight<number>();
+    [1, 2, 3].forEach((i) => left.set(i));
+    left.undo();
+
+    const { opsSent } = syncUntilConverged(left, right);
+    expect(opsSent).toBe(4);
+    expect(right.get()).toEqual([2]);
+    expect(sortedHeads(left)).toEqual(sortedHeads(right));
+  });
+
+  test("sync of diverged replicas only exchanges the missing ops", () => {
+    const { left, right } = createLeftAndRight<number>();
+
+    const N = 200;
+    Array.from({ length: N }).forEach((_, i) => right.apply([left.set(i)]));
+    expect(right.get()).toEqual([N - 1]);
+
+    left.set(N);
+    left.undo();
+    right.set(N + 1);
+
+    const { messages, opsSent } = syncUntilConverged(left, right);
+    expect(messages).toBeLessThanOrEqual(5);
+    expect(opsSent).toBe(3);
+    expect([left.get(), right.get()]).toEqual([
+      [N - 1, N + 1],
+      [N - 1, N + 1],
+    ]);
+    expect(sortedHeads(left)).toEqual(sortedHeads(right));
+
+    // subsequent syncs are cheap, too
+    left.apply([right.set(N + 2)]);
+    expect(syncUntilConverged(left, right).opsSent).toBe(0);
+  });
+
+  test("sync completes pending lobby ops", () => {
+    const { left, right } = createLeftAndRight<number>();
+
+    const leftOps = [left.set(1), left.set(2), left.set(3)];
+    // right only received the last op out of order
+    right.apply([leftOps[2]]);
+    expect(right.missingDeps()).toEqual([leftOps[1].opId]);
+
+    syncUntilConverged(left, right);
+    expect(right.missingDeps()).toEqual([]);
+    expect(right.get()).toEqual([3]);
+  });
+
+  test("sync of a fresh replica with a compacted replica", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(1);
+    a.set(2);
+    a.undo();
+    a.redo();
+    a.set(3);
+    a.set(4);
+    expect(a.compact()).toHaveLength(2);
+
+    const fresh = Picomerge.create<number>("C");
+    syncUntilConverged(a, fresh);
+    expect(fresh.missingDeps()).toEqual([]);
+    expect(fresh.get()).toEqual([4]);
+    expect(sortedHeads(fresh)).toEqual(sortedHeads(a));
+  });
+
+  test("sync terminates if the peer cannot supply the needed ops", () => {
+    const a = Picomerge.create<number>("A");
+    const ops = [a.set(1), a.set(2)];
+    const p = Picomerge.create<number>("P");
+    const q = Picomerge.create<number>("Q");
+    p.set(0);
+    // q only received the second op of a, p has never seen the first one
+    q.apply([ops[1]]);
+
+    syncUntilConverged(p, q);
+    expect(q.missingDeps()).toEqual([ops[0].opId]);
+    expect(p.get()).toEqual([0]);
+
+    // a can supply the missing op
+    syncUntilConverged(a, q);
+    expect(q.missingDeps()).toEqual([]);
+    expect(q.get()).toEqual([2, 0]);
+  });
+
+  test("sync messages survive the codecs", () => {
+    const codec = SyncMessageCodec.create<number>();
+    const transports = [
+      (message: SyncMessage<number>) => codec.fromJson(codec.toJson(message)),
+      (message: SyncMessage<number>) =>
+        codec.fromBinary(codec.toBinary(message)),
+    ];
+    transports.forEach((transport) => {
+      const { left, right } = createLeftAndRight<number>();
+      [1, 2, 3].forEach((i) => left.set(i));
+      left.undo();
+      right.set(4);
+
+      syncUntilConverged(left, right, transport);
+      expect(left.get()).toEqual(right.get());
+      expect(sortedHeads(left)).toEqual(sortedHeads(right));
+    });
+
+    const message = Sync.create(
+      createLeftAndRight<number>().left,
+    ).generateMessage()!;
+    expect(codec.fromJson(codec.toJson(message))).toEqual(message);
+    expect(codec.fromBinary(codec.toBinary(message))).toEqual(message);
+    expect(() =>
+      codec.fromWire({ ...codec.toWire(message), have: { bloom: "x" } }),
+    ).toThrow("bloom is not a hex string");
+  });
+
+  test("sync terminates if the peer rejects the ops", () => {
+    const unhashed = Picomerge.create<number>("X");
+    const hashing = Picomerge.create<number>("H", {
+      hashing: true,
+      invalidOpPolicy: "skip",
+    });
+    unhashed.set(1);
+    unhashed.set(2);
+
+    syncUntilConverged(unhashed, hashing);
+    expect(hashing.get()).toEqual([]);
+    expect(hashing.isRejected([1, "X"])).toBe(true);
+    expect(hashing.missingDeps()).toEqual([]);
+  });
+});
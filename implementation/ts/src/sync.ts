@@ -0,0 +1,205 @@
+import { Op, OpId, Picomerge, StringifiedOpId } from "./picomerge";
+
+/**
+ * A Bloom filter over opIds, used to summarize the ops a replica has
+ * without enumerating them. False positives are possible, false negatives
+ * are not.
+ */
+const BloomFilter = {
+  // as in Automerge, 10 bits per entry and 7 probes yield a false positive
+  // rate of about 1%
+  bitsPerEntry: 10,
+  numProbes: 7,
+  create: (opIds: StringifiedOpId[]) => {
+    const numBits = Math.max(8, opIds.length * BloomFilter.bitsPerEntry);
+    const bits = new Uint8Array(Math.ceil(numBits / 8));
+    opIds.forEach((opId) =>
+      BloomFilter.probes(opId, bits.length * 8).forEach((probe) => {
+        bits[probe >>> 3] |= 1 << (probe & 7);
+      }),
+    );
+    return bits;
+  },
+  contains: (bits: Uint8Array, opId: StringifiedOpId) =>
+    bits.length > 0 &&
+    BloomFilter.probes(opId, bits.length * 8).every(
+      (probe) => (bits[probe >>> 3] & (1 << (probe & 7))) !== 0,
+    ),
+  // double hashing of two FNV-1a hashes with different offsets
+  probes: (opId: StringifiedOpId, numBits: number) => {
+    const fnv1a = (offset: number) => {
+      let hash = offset;
+      for (let i = 0; i < opId.length; i++) {
+        hash ^= opId.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+      return hash;
+    };
+    const x = fnv1a(0x811c9dc5);
+    const y = fnv1a(0x050c5d1f);
+    return Array.from(
+      { length: BloomFilter.numProbes },
+      (_, i) => (x + i * y) % numBits,
+    );
+  },
+};
+
+/**
+ * A message of the sync protocol which is exchanged between two replicas.
+ */
+export type SyncMessage<V> = {
+  /**
+   * The heads of the sender.
+   */
+  heads: OpId[];
+  /**
+   * The opIds the sender is missing, e.g., due to a false positive
+   * of the Bloom filter.
+   */
+  need: OpId[];
+  /**
+   * A summary of the ops the sender has, consisting of the heads the sender
+   * knows to share with the receiver (`lastSync`) and a Bloom filter
+   * containing all ops the sender has applied since then.
+   */
+  have: { lastSync: OpId[]; bloom: Uint8Array };
+  /**
+   * The ops the receiver is (probably) missing, in a causal order.
+   */
+  ops: Op<V>[];
+};
+
+const sameOpIds = (a: StringifiedOpId[], b: StringifiedOpId[]) =>
+  a.length === b.length && a.every((opId) => b.includes(opId));
+
+/**
+ * Creates a sync session of the given replica with a single remote peer.
+ * Both peers repeatedly call `generateMessage()` and deliver the resulting
+ * messages to the other peer's `receiveMessage()` until neither of them
+ * generates a message anymore, at which point both have converged.
+ *
+ * The session keeps state about the peer and has to be recreated
+ * if the connection is lost.
+ */
+export type Sync<V> = ReturnType<typeof Sync.create<V>>;
+export const Sync = {
+  create: <V>(picomerge: Picomerge<V>) => {
+    // the heads both replicas are known to have in common
+    let sharedHeads: StringifiedOpId[] = [];
+    // the heads and the needed opIds we included in our last message
+    let lastSentHeads: StringifiedOpId[] | undefined;
+    let lastSentNeed: StringifiedOpId[] = [];
+    // the state of the peer as of its last message
+    let theirHeads: StringifiedOpId[] | undefined;
+    let theirNeed: StringifiedOpId[] = [];
+    let theirHave: { lastSync: StringifiedOpId[]; bloom: Uint8Array } | null =
+      null;
+    // whether the peer's heads changed since our last message, such that
+    // it may be able to supply ops it could not supply before
+    let theirHeadsChanged = false;
+    // ops which have already been sent during this session
+    const sentOps: Set<StringifiedOpId> = new Set();
+
+    const ourHeads = () => picomerge.heads().map(OpId.toString);
+
+    const opsToSend = (): Op<V>[] => {
+      if (!theirHave) return [];
+      const { lastSync, bloom } = theirHave;
+      const toSend: Set<StringifiedOpId> = new Set();
+      const ops = picomerge
+        .getOpsSince(lastSync.map(OpId.fromString))
+        .filter((op) => {
+          const opId = OpId.toString(op.opId);
+          // if the peer lacks a pred, it also lacks all of its descendants
+          const send =
+            !BloomFilter.contains(bloom, opId) ||
+            [...op.preds].some((pred) => toSend.has(pred)) ||
+            theirNeed.includes(opId);
+          if (send) toSend.add(opId);
+          return send;
+        });
+      return ops.filter(
+        (op) =>
+          !sentOps.has(OpId.toString(op.opId)) ||
+          theirNeed.includes(OpId.toString(op.opId)),
+      );
+    };
+
+    const generateMessage = (): SyncMessage<V> | undefined => {
+      const heads = ourHeads();
+      const ops = opsToSend();
+      const lobby = new Set(
+        picomerge.lobbyOps().map((op) => OpId.toString(op.opId)),
+      );
+      // we need the ops the lobby is waiting for and their heads we do not
+      // know yet, the latter only matters if they were not sent due to a
+      // false positive of our Bloom filter; rejected ops are never needed
+      const need = [
+        ...new Set([
+          ...picomerge.missingDeps().map(OpId.toString),
+          ...(theirHeads ?? []).filter((opId) => {
+            const head = OpId.fromString(opId);
+            return (
+              !picomerge.hasOp(head) &&
+              !picomerge.isRejected(head) &&
+              !lobby.has(opId)
+            );
+          }),
+        ]),
+      ];
+
+      // nothing new to tell: either we are in sync or we wait for the peer
+      // to answer our last message. The needed ops are only asked for again
+      // if the peer may have learned them since, otherwise a peer which
+      // cannot supply them would be asked forever
+      const headsUnchanged =
+        lastSentHeads !== undefined && sameOpIds(heads, lastSentHeads);
+      const asksForNeed =
+        need.length > 0 &&
+        (!sameOpIds(need, lastSentNeed) || theirHeadsChanged);
+      if (headsUnchanged && ops.length === 0 && !asksForNeed) return;
+
+      lastSentHeads = heads;
+      lastSentNeed = need;
+      theirHeadsChanged = false;
+      theirNeed = [];
+      ops.forEach((op) => sentOps.add(OpId.toString(op.opId)));
+      return {
+        heads: heads.map(OpId.fromString),
+        need: need.map(OpId.fromString),
+        have: {
+          lastSync: sharedHeads.map(OpId.fromString),
+          bloom: BloomFilter.create(
+            picomerge
+              .getOpsSince(sharedHeads.map(OpId.fromString))
+              .map((op) => OpId.toString(op.opId)),
+          ),
+        },
+        ops,
+      };
+    };
+
+    const receiveMessage = (message: SyncMessage<V>) => {
+      picomerge.applyBatch(message.ops);
+
+      const heads = message.heads.map(OpId.toString);
+      if (!theirHeads || !sameOpIds(heads, theirHeads))
+        theirHeadsChanged = true;
+      theirHeads = heads;
+      theirNeed = message.need.map(OpId.toString);
+      theirHave = {
+        lastSync: message.have.lastSync.map(OpId.toString),
+        bloom: message.have.bloom,
+      };
+
+      // we share all of their heads which we have applied
+      const known = message.heads.filter(picomerge.hasOp).map(OpId.toString);
+      sharedHeads =
+        known.length === theirHeads.length
+          ? known
+          : [...new Set([...sharedHeads, ...known])];
+    };
+
+    return { generateMessage, receiveMessage };
+  },
+};
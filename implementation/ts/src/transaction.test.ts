@@ -0,0 +1,95 @@
+import { describe, expect, test } from "@jest/globals";
+import { createLeftAndRight } from "./helpers";
+import { Picomerge } from "./picomerge";
+
+describe("Picomerge: undo groups", () => {
+  test("a transaction is undone and redone as a single unit", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(0);
+
+    const ops = a.transaction(() => {
+      a.set(1);
+      a.set(2);
+      a.delete();
+      a.set(3);
+    });
+    expect(ops).toHaveLength(4);
+    expect(a.get()).toEqual([3]);
+    expect(a.undoStack()).toHaveLength(2);
+
+    a.undo();
+    expect(a.get()).toEqual([0]);
+    a.redo();
+    expect(a.get()).toEqual([3]);
+    a.undo();
+    expect(a.get()).toEqual([0]);
+    a.undo();
+    expect(a.get()).toEqual([]);
+  });
+
+  test("the ops of a transaction are valid for remote replicas", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    b.apply([a.set(0)]);
+
+    b.apply(
+      a.transaction(() => {
+        a.set(1);
+        a.set(2);
+      }),
+    );
+    expect([a.get(), b.get()]).toEqual([[2], [2]]);
+
+    b.apply([a.undo()]);
+    expect([a.get(), b.get()]).toEqual([[0], [0]]);
+    b.apply([a.redo()]);
+    expect([a.get(), b.get()]).toEqual([[2], [2]]);
+  });
+
+  test("remote ops applied during a transaction are not part of it", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+
+    const remoteOp = b.set(7);
+    const ops = a.transaction(() => {
+      a.set(1);
+      a.apply([remoteOp]);
+      a.set(2);
+    });
+    expect(ops.map((op) => op.opId)).toEqual([
+      [1, "A"],
+      [2, "A"],
+    ]);
+  });
+
+  test("manual and nested groups", () => {
+    const a = Picomerge.create<number>("A");
+
+    a.beginGroup();
+    a.set(1);
+    a.transaction(() => a.set(2));
+    // an empty group does not produce an undo entry
+    a.transaction(() => undefined);
+    a.set(3);
+    expect(() => a.undo()).toThrow("Cannot undo or redo while a group is open");
+    a.endGroup();
+    expect(() => a.endGroup()).toThrow("There is no group to end");
+
+    expect(a.undoStack()).toHaveLength(1);
+    a.undo();
+    expect(a.get()).toEqual([]);
+    a.redo();
+    expect(a.get()).toEqual([3]);
+  });
+
+  test("a failing transaction still closes its group", () => {
+    const a = Picomerge.create<number>("A");
+
+    expect(() =>
+      a.transaction(() => {
+        a.set(1);
+        throw new Error("failure");
+      }),
+    ).toThrow("failure");
+    a.set(2);
+    expect(a.undoStack()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "@jest/globals";
+import { OpCodec } from "./codec";
+import { Op, Picomerge } from "./picomerge";
+
+const createDevices = () => ({
+  laptop: Picomerge.create<number>("laptop", { userId: "alice" }),
+  phone: Picomerge.create<number>("phone", { userId: "alice" }),
+  other: Picomerge.create<number>("other", { userId: "bob" }),
+});
+
+const opIdsOf = <V>(ops: Op<V>[]) => ops.map((op) => op.opId);
+
+describe("Picomerge: user identity", () => {
+  test("local ops carry the user", () => {
+    const { laptop } = createDevices();
+    const setOp = laptop.set(1);
+    expect(setOp.userId).toBe("alice");
+    expect(laptop.undo()!.userId).toBe("alice");
+    expect(Picomerge.create<number>("anonymous").set(1)).not.toHaveProperty(
+      "userId",
+    );
+
+    const codec = OpCodec.create<number>();
+    expect(codec.fromJson(codec.toJson(setOp))).toEqual(setOp);
+    expect(codec.fromBinary(codec.toBinary(setOp))).toEqual(setOp);
+  });
+
+  test("undo and redo span all devices of the user", () => {
+    const { laptop, phone, other } = createDevices();
+
+    // ops of other users are not part of the undo history
+    const otherOp = other.set(2);
+    phone.apply([otherOp]);
+    laptop.apply([otherOp]);
+    const setOp = laptop.set(1);
+    phone.apply([setOp]);
+    expect(opIdsOf(phone.undoStack())).toEqual([setOp.opId]);
+
+    // the phone undoes the set of the laptop
+    const undoOp = phone.undo()!;
+    laptop.apply([undoOp]);
+    expect([phone.get(), laptop.get()]).toEqual([[2], [2]]);
+    expect(laptop.undoStack()).toEqual([]);
+    expect(laptop.redoStack()).toEqual([undoOp]);
+
+    // and the laptop redoes it
+    phone.apply([laptop.redo()]);
+    expect([phone.get(), laptop.get()]).toEqual([[1], [1]]);
+    expect(phone.undoStack()).toEqual([setOp]);
+    expect(phone.redoStack()).toEqual([]);
+  });
+
+  test("concurrent undos of two devices undo the same entry once", () => {
+    const { laptop, phone } = createDevices();
+
+    const ops = [laptop.set(1), laptop.set(2)];
+    phone.apply(ops);
+
+    const laptopUndo = laptop.undo()!;
+    const phoneUndo = phone.undo()!;
+    laptop.apply([phoneUndo]);
+    phone.apply([laptopUndo]);
+    expect([laptop.get(), phone.get()]).toEqual([
+      [1, 1],
+      [1, 1],
+    ]);
+    expect(opIdsOf(laptop.undoStack())).toEqual([ops[0].opId]);
+    expect(opIdsOf(phone.undoStack())).toEqual([ops[0].opId]);
+    // each device keeps its own undo on the redo stack
+    expect(laptop.redoStack()).toEqual([laptopUndo]);
+    expect(phone.redoStack()).toEqual([phoneUndo]);
+
+    // redoing on one device redoes the entry on both devices
+    phone.apply([laptop.redo()]);
+    expect([laptop.get(), phone.get()]).toEqual([[2], [2]]);
+    expect(phone.redoStack()).toEqual([]);
+    expect(opIdsOf(phone.undoStack())).toEqual(opIdsOf(ops));
+  });
+
+  test("a loaded replica keeps its saved stacks", () => {
+    const { laptop, phone } = createDevices();
+
+    phone.apply([laptop.set(1), laptop.set(2)]);
+    phone.apply([laptop.undo()]);
+    const loaded = Picomerge.load(phone.save(), "phone", { userId: "alice" });
+    expect(loaded.undoStack()).toEqual(phone.undoStack());
+    expect(loaded.redoStack()).toEqual(phone.redoStack());
+  });
+});
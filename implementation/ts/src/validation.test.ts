@@ -0,0 +1,201 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  ConflictingOpError,
+  InconsistentOpError,
+  InvalidOpError,
+  MalformedOpError,
+} from "./errors";
+import { createLeftAndRight } from "./helpers";
+import { Op, OpKind, Picomerge } from "./picomerge";
+
+// bypasses the type checker, like ops decoded from an untrusted source
+const untrusted = (op: object) => op as Op<number>;
+
+describe("Picomerge: validation of incoming ops", () => {
+  test("malformed ops are rejected", () => {
+    const a = Picomerge.create<number>("A");
+    const malformedOps = [
+      { opId: [1, "B"], kind: 42, preds: new Set() },
+      { opId: [-1, "B"], kind: OpKind.set, preds: new Set(), value: 1 },
+      { opId: [1, "B"], kind: OpKind.set, preds: new Set(["1@A"]), value: 1 },
+      { opId: [2, "B"], kind: OpKind.set, preds: new Set(["x"]), value: 1 },
+      { opId: [1, "B"], kind: OpKind.set, preds: new Set() },
+      {
+        opId: [1, "B"],
+        kind: OpKind.restore,
+        preds: new Set(),
+        anchor: [1, "B"],
+      },
+      { opId: [1, "B"], kind: OpKind.delete, preds: [] },
+    ];
+    malformedOps.forEach((op) => {
+      expect(() => a.apply([untrusted(op)])).toThrow(MalformedOpError);
+    });
+    expect(() => a.apply([untrusted(malformedOps[0])])).toThrow(
+      "Malformed op: unknown kind '42' of 1@B",
+    );
+    expect(a.heads()).toEqual([]);
+  });
+
+  test("ops with a ctr which cannot be interned are rejected", () => {
+    const a = Picomerge.create<number>("A");
+    a.set(1);
+    const hugeOp = { opId: [2 ** 40, "B"], kind: OpKind.set, value: 2 };
+    expect(() =>
+      a.apply([untrusted({ ...hugeOp, preds: new Set(["1@A"]) })]),
+    ).toThrow("Malformed op: invalid opId");
+    expect(a.heads()).toEqual([[1, "A"]]);
+    expect(a.set(3).opId).toEqual([2, "A"]);
+    // lookups of such ctrs do not match any op either
+    expect(() => a.getAt([[2 ** 40 + 1, "A"]])).toThrow("not an applied op");
+  });
+
+  test("ops reusing an opId with a different content are rejected", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    const setOp = a.set(1);
+    b.apply([setOp]);
+    // an identical op is just a duplicate
+    b.apply([{ ...setOp, preds: new Set(setOp.preds) }]);
+    const conflictingOp = { ...setOp, value: 2 };
+    expect(() => b.apply([conflictingOp])).toThrow(ConflictingOpError);
+    expect(() => b.apply([conflictingOp])).toThrow(
+      "Conflicting op: 1@A is already in use",
+    );
+    expect(b.get()).toEqual([1]);
+
+    // ops of the same batch are compared with each other, too
+    const c = Picomerge.create<number>("C", { invalidOpPolicy: "skip" });
+    const { duplicates, rejected } = c.applyBatch([setOp, conflictingOp]);
+    expect(duplicates).toEqual([]);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toBeInstanceOf(ConflictingOpError);
+    expect(c.get()).toEqual([1]);
+  });
+
+  test("conflicting values which are not JSON-serializable are rejected", () => {
+    const a = Picomerge.create<bigint>("A");
+    const b = Picomerge.create<bigint>("B", { invalidOpPolicy: "skip" });
+    const [one, two] = [BigInt(1), BigInt(2)];
+    const setOp = a.set(one);
+    b.apply([setOp]);
+    b.apply([setOp]);
+    b.apply([{ ...setOp, value: two }]);
+    expect(b.get()).toEqual([one]);
+    expect(() => a.apply([{ ...setOp, value: two }])).toThrow(
+      ConflictingOpError,
+    );
+  });
+
+  test("ops inconsistent with their causal past are rejected", () => {
+    const { left: a, right: b } = createLeftAndRight<number>("A", "B");
+    const concurrentSet = b.set(1);
+    const setOp = a.set(2);
+    a.apply([concurrentSet]);
+    b.apply([setOp]);
+
+    // the anchor is known to b, but it is not an ancestor of the op
+    const restoreOp = untrusted({
+      opId: [3, "A"],
+      kind: OpKind.restore,
+      preds: new Set(["1@A"]),
+      anchor: [1, "B"],
+    });
+    expect(() => b.apply([restoreOp])).toThrow(InconsistentOpError);
+    const resolveOp = untrusted({
+      opId: [3, "A"],
+      kind: OpKind.resolve,
+      preds: new Set(["1@A", "1@B"]),
+      chosen: [2, "A"],
+    });
+    expect(() => b.apply([resolveOp])).toThrow(
+      "Inconsistent op 3@A: chosen 2@A is not a terminal ancestor",
+    );
+    expect(b.get()).toEqual([1, 2]);
+  });
+
+  test("ops of the local actor received from elsewhere are validated", () => {
+    const a = Picomerge.create<number>("A");
+    const setOp = a.set(1);
+    const forgedOp = untrusted({
+      opId: [5, "A"],
+      kind: OpKind.restore,
+      preds: new Set(["1@A"]),
+      anchor: [4, "Z"],
+    });
+    expect(() => a.apply([forgedOp])).toThrow(
+      "Inconsistent op 5@A: anchor 4@Z is not an ancestor",
+    );
+    expect(a.get()).toEqual([1]);
+
+    // the own ops received back from a peer are valid, though
+    const b = Picomerge.create<number>("B");
+    b.apply([setOp, a.set(2), a.undo()]);
+    const reinstalled = Picomerge.create<number>("A");
+    reinstalled.apply(b.getOpsSince([]));
+    expect(reinstalled.get()).toEqual([1]);
+  });
+
+  test("invalid ops are skipped or quarantined according to the policy", () => {
+    const reported: InvalidOpError[] = [];
+    const onInvalidOp = (error: InvalidOpError) => reported.push(error);
+    const skipping = Picomerge.create<number>("B", {
+      invalidOpPolicy: "skip",
+      onInvalidOp,
+    });
+    const quarantining = Picomerge.create<number>("C", {
+      invalidOpPolicy: "quarantine",
+      onInvalidOp,
+    });
+
+    const a = Picomerge.create<number>("A");
+    const ops = [a.set(1), a.set(2), a.set(3)];
+    const invalidOp = untrusted({
+      opId: [4, "A"],
+      kind: OpKind.restore,
+      preds: new Set(["3@A"]),
+      anchor: [2, "X"],
+    });
+    const dependentOp = untrusted({
+      opId: [5, "A"],
+      kind: OpKind.set,
+      preds: new Set(["4@A"]),
+      value: 5,
+    });
+
+    // the valid ops of the same call are applied nonetheless
+    skipping.apply([...ops, invalidOp, dependentOp]);
+    expect(skipping.get()).toEqual([3]);
+    // rejected ops are not asked for again
+    expect(skipping.missingDeps()).toEqual([]);
+    expect(skipping.isRejected([4, "A"])).toBe(true);
+    expect(skipping.isRejected([5, "A"])).toBe(false);
+
+    expect(quarantining.applyBatch([dependentOp, invalidOp, ...ops])).toEqual({
+      applied: [
+        [1, "A"],
+        [2, "A"],
+        [3, "A"],
+      ],
+      deferred: [[5, "A"]],
+      duplicates: [],
+      rejected: [reported[1]],
+    });
+    expect(quarantining.get()).toEqual([3]);
+    expect(quarantining.quarantine()).toEqual([reported[1]]);
+    expect(quarantining.quarantine()[0].op).toBe(invalidOp);
+
+    expect(reported.map((error) => error.name)).toEqual([
+      "InconsistentOpError",
+      "InconsistentOpError",
+    ]);
+    expect(skipping.quarantine()).toEqual([]);
+
+    // every op of a batch is accounted for in the report
+    const malformedOp = untrusted({ opId: [6, "A"], kind: 42, preds: [] });
+    const { rejected, ...report } = skipping.applyBatch([malformedOp]);
+    expect(report).toEqual({ applied: [], deferred: [], duplicates: [] });
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toBeInstanceOf(MalformedOpError);
+    expect(rejected[0].op).toBe(malformedOp);
+  });
+});